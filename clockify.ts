@@ -1,31 +1,71 @@
 import { AxiosInstance } from 'axios';
 import { HttpClient } from './lib/http-client.js';
-import { logSessionStart } from './lib/db.js';
+import { countPendingOutboxOperations, enqueueOutboxOperation, getOutboxOperation, logSessionStart } from './lib/db.js';
 import { v4 as uuidv4 } from 'uuid';
-import { NotificationCenter } from 'node-notifier';
-import { getJiraTicket } from './lib/jira.js';
+import { TimeEntryDetails } from './lib/entry-details.js';
+import { getJiraDescription } from './lib/jira.js';
+import { replayOutbox, ReplayOptions } from './lib/outbox.js';
+import { currentTime } from './lib/time.js';
+import { stopAndRecord } from './lib/timer.js';
+import { createNotifier, NotificationCallback, Notifier } from './lib/notifier.js';
+import { HttpError, NotFoundError, unlessOffline } from './lib/http-errors.js';
+import { CredentialStoreError } from './lib/credentials.js';
+import { z } from 'zod';
+import {
+  ClockifyProject,
+  ClockifyTag,
+  ClockifyTask,
+  ClockifyTimeEntry,
+  ClockifyUser,
+  ClockifyWorkspace,
+  parseClockifyResponse,
+  ProjectSchema,
+  TagSchema,
+  TaskSchema,
+  TimeEntrySchema,
+  UserSchema,
+  WorkspaceSchema,
+} from './lib/clockify-models.js';
 
-interface ClockifyProject {
-  id: string;
-  name: string;
+export type { ClockifyProject, ClockifyTimeEntry, ClockifyUser, ClockifyWorkspace } from './lib/clockify-models.js';
+
+/**
+ * A write Clockify hasn't received yet: the request body, plus the outbox operation to
+ * look the response up by once it has been sent.
+ */
+export type QueuedWrite<T> = T & { queued: true; outboxOperationId: number };
+
+interface TimeEntryRequest extends TimeEntryDetails {
+  projectId: string;
+  description: string;
+  start: string;
+  end?: string;
+}
+
+export interface TimeEntryChanges {
+  start?: string;
+  // null re-opens the entry as a running timer.
+  end?: string | null;
+  projectId?: string;
+  description?: string;
+}
+
+// Defaults to the Clockify API with the configured credentials and desktop notifications.
+export interface ClockifyDependencies {
+  httpClient?: AxiosInstance;
+  notifier?: Notifier;
 }
 
 export class Clockify {
   private readonly httpClient: AxiosInstance;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private readonly notifier: any;
+  private readonly notifier: Notifier;
 
-  constructor() {
-    this.httpClient = new HttpClient().getClient();
-    this.notifier = new NotificationCenter();
+  constructor(dependencies: ClockifyDependencies = {}) {
+    this.httpClient = dependencies.httpClient ?? new HttpClient().getClient();
+    this.notifier = dependencies.notifier ?? createNotifier();
   }
 
-  private sendNotification(
-    title: string,
-    message: string,
-    actions?: string[],
-    callback?: (err: unknown, response: unknown, metadata: { activationValue?: string }) => void,
-  ) {
+  private sendNotification(title: string, message: string, actions?: string[], callback?: NotificationCallback) {
     this.notifier.notify(
       {
         title,
@@ -38,18 +78,94 @@ export class Clockify {
     );
   }
 
-  async getUser() {
+  /**
+   * Shows a notification with a single action button and resolves true if the user
+   * clicked it. Gives up (false) when nobody answers within a minute.
+   */
+  askForConfirmation(title: string, message: string, action: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => resolve(false), 60_000);
+      this.sendNotification(title, message, [action], (err, response, metadata) => {
+        clearTimeout(timeout);
+        resolve(!err && metadata?.activationValue === action);
+      });
+    });
+  }
+
+  /**
+   * Logs an unexpected failure (e.g. a response that doesn't match its schema) and returns
+   * `fallback`. Failed requests and a locked credential store are thrown, so callers can
+   * tell being offline from an empty answer; use `unlessOffline` to carry on without Clockify.
+   */
+  private recover<T>(action: string, error: unknown, fallback: T): T {
+    if (error instanceof HttpError || error instanceof CredentialStoreError) {
+      throw error;
+    }
+
+    console.error(`[clockify] Error ${action}:`, error instanceof Error ? error.message : 'An unknown error occurred.');
+    return fallback;
+  }
+
+  private async get<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, url: string, params?: Record<string, unknown>) {
+    const response = await this.httpClient.get(url, { params });
+    return parseClockifyResponse(schema, response.data, `GET ${url}`);
+  }
+
+  /**
+   * Records a write in the outbox before attempting it, so it survives a dropped
+   * connection. Returns the Clockify response once delivered, a `queued` placeholder
+   * when Clockify is unreachable, or null when Clockify rejected the request.
+   * `onAccepted` runs once the write is delivered or queued, before the response is parsed,
+   * so local records still match Clockify when the response doesn't match its schema.
+   */
+  private async sendThroughOutbox<T, B extends object>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    operation: string,
+    method: string,
+    url: string,
+    body: B,
+    onAccepted?: () => void,
+  ): Promise<T | QueuedWrite<B> | null> {
+    const operationId = enqueueOutboxOperation(operation, method, url, body);
+    await replayOutbox(this.httpClient, { force: true });
+
+    const queued = getOutboxOperation(operationId);
+    if (queued?.status !== 'failed') {
+      onAccepted?.();
+    }
+
+    if (queued?.status === 'done') {
+      // Some endpoints (e.g. DELETE) answer with an empty body; still report success.
+      const response = (queued.response && JSON.parse(queued.response)) || {};
+      return parseClockifyResponse(schema, response, `${method} ${url}`);
+    }
+
+    if (queued?.status === 'failed') {
+      console.error(`[clockify] Clockify rejected the ${operation}:`, queued.lastError);
+      return null;
+    }
+
+    console.log(`[clockify] Clockify is unreachable. The ${operation} has been queued and will sync automatically.`);
+    return { ...body, queued: true as const, outboxOperationId: operationId };
+  }
+
+  async syncOutbox(options: ReplayOptions = {}) {
+    return replayOutbox(this.httpClient, options);
+  }
+
+  async getUser(): Promise<ClockifyUser | null> {
     try {
-      const response = await this.httpClient.get('/user');
+      return await this.get(UserSchema, '/user');
+    } catch (error: unknown) {
+      return this.recover('connecting to Clockify', error, null);
+    }
+  }
 
-      return response.data;
+  async getWorkspaces(): Promise<ClockifyWorkspace[] | null> {
+    try {
+      return await this.get(z.array(WorkspaceSchema), '/workspaces');
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error('[clockify] Could not connect to Clockify. Please check your API key.', error.message);
-      } else {
-        console.error('[clockify] An unknown error occurred.');
-      }
-      return null;
+      return this.recover('fetching workspaces', error, null);
     }
   }
 
@@ -61,16 +177,14 @@ export class Clockify {
       let hasMore = true;
 
       while (hasMore) {
-        const response = await this.httpClient.get(`/workspaces/${workspaceId}/projects`, {
-          params: {
-            page: page,
-            'page-size': pageSize,
-            archived: false,
-          },
+        const projects = await this.get(z.array(ProjectSchema), `/workspaces/${workspaceId}/projects`, {
+          page: page,
+          'page-size': pageSize,
+          archived: false,
         });
 
-        if (response.data.length > 0) {
-          allProjects = allProjects.concat(response.data);
+        if (projects.length > 0) {
+          allProjects = allProjects.concat(projects);
           page++;
         } else {
           hasMore = false;
@@ -79,139 +193,275 @@ export class Clockify {
 
       return allProjects;
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error('Error fetching projects:', error.message);
-      } else {
-        console.error('Error fetching projects: An unknown error occurred.');
-      }
-      return [];
+      return this.recover('fetching projects', error, []);
     }
   }
 
-  async getProjectById(workspaceId: string, projectId: string): Promise<ClockifyProject | null> {
+  async getTasks(workspaceId: string, projectId: string): Promise<ClockifyTask[]> {
     try {
-      const response = await this.httpClient.get(`/workspaces/${workspaceId}/projects/${projectId}`);
-      return response.data;
+      return await this.getAllPages(TaskSchema, `/workspaces/${workspaceId}/projects/${projectId}/tasks`, {
+        'is-active': true,
+      });
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error('Error fetching project:', error.message);
-      } else {
-        console.error('Error fetching project: An unknown error occurred.');
-      }
-      return null;
+      return this.recover('fetching tasks', error, []);
     }
   }
 
-  async startTimer(workspaceId: string, projectId: string, description = 'Working on a task...', jiraTicket?: string) {
+  async getTags(workspaceId: string): Promise<ClockifyTag[]> {
     try {
-      const user = await this.getUser();
-      if (!user) {
-        return null;
-      }
+      return await this.getAllPages(TagSchema, `/workspaces/${workspaceId}/tags`, { archived: false });
+    } catch (error: unknown) {
+      return this.recover('fetching tags', error, []);
+    }
+  }
 
-      let finalDescription = description;
-      if (jiraTicket) {
-        const ticket = await getJiraTicket(jiraTicket);
-        if (ticket) {
-          finalDescription = `${jiraTicket} ${ticket.fields.summary}`;
-        }
+  private async getAllPages<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    url: string,
+    params: Record<string, unknown>,
+  ): Promise<T[]> {
+    let items: T[] = [];
+    const pageSize = 50;
+
+    for (let page = 1; ; page++) {
+      const pageItems = await this.get(z.array(schema), url, { ...params, page, 'page-size': pageSize });
+      items = items.concat(pageItems);
+      if (pageItems.length < pageSize) {
+        return items;
       }
+    }
+  }
+
+  async getProjectById(workspaceId: string, projectId: string): Promise<ClockifyProject | null> {
+    try {
+      return await this.get(ProjectSchema, `/workspaces/${workspaceId}/projects/${projectId}`);
+    } catch (error: unknown) {
+      return this.recover('fetching project', error, null);
+    }
+  }
+
+  async startTimer(
+    workspaceId: string,
+    projectId: string,
+    description = 'Working on a task...',
+    jiraTicket?: string,
+    startedAt = currentTime().toISOString(),
+    details: TimeEntryDetails = {},
+  ) {
+    try {
+      const finalDescription = await getJiraDescription(jiraTicket, description);
 
-      const startedAt = new Date().toISOString();
       const sessionId = uuidv4();
-      const response = await this.httpClient.post(`/workspaces/${workspaceId}/time-entries`, {
+      const request: TimeEntryRequest = {
         projectId: projectId,
         description: finalDescription,
         start: startedAt,
-      });
+        ...details,
+      };
+      const entry = await this.sendThroughOutbox(
+        TimeEntrySchema,
+        'start',
+        'POST',
+        `/workspaces/${workspaceId}/time-entries`,
+        request,
+        // Log session to SQLite
+        () => logSessionStart(sessionId, workspaceId, projectId, finalDescription, startedAt, jiraTicket, details),
+      );
 
-      // Log session to SQLite
-      logSessionStart(sessionId, projectId, finalDescription, startedAt, jiraTicket);
+      if (!entry) {
+        return null;
+      }
 
-      const project = await this.getProjectById(workspaceId, projectId);
+      // The entry is started (or queued) by now, so only its notification needs the project.
+      const project = await unlessOffline(this.getProjectById(workspaceId, projectId), null);
 
       this.sendNotification(
         `Timer started for ${project ? project.name : 'a project'}`,
         finalDescription,
         ['Stop'],
-        (err, response, metadata) => {
+        async (err, response, metadata) => {
           if (err) {
             console.error(err);
             return;
           }
           if (metadata.activationValue === 'Stop') {
-            this.stopTimer(workspaceId, user.id);
+            try {
+              const user = await this.getUser();
+              if (user) {
+                await stopAndRecord({ clockify: this, workspaceId, userId: user.id });
+              }
+            } catch (error: unknown) {
+              console.error('[clockify] Error stopping timer:', error instanceof Error ? error.message : error);
+            }
           }
         },
       );
 
-      return response.data;
+      return entry;
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error('Error starting timer:', error.message);
-      } else {
-        console.error('Error starting timer: An unknown error occurred.');
-      }
-      return null;
+      return this.recover('starting timer', error, null);
     }
   }
 
-  async stopTimer(workspaceId: string, userId: string) {
+  async stopTimer(workspaceId: string, userId: string, end = currentTime().toISOString()) {
     try {
-      const response = await this.httpClient.patch(`/workspaces/${workspaceId}/user/${userId}/time-entries`, {
-        end: new Date().toISOString(),
-      });
+      // A stop with nothing running would only fail for good in the outbox. While writes are
+      // still queued, the timer they start isn't on Clockify yet, so the stop is queued after them.
+      await this.syncOutbox({ force: true });
+      if (
+        countPendingOutboxOperations() === 0 &&
+        (await unlessOffline(this.getActiveTimer(workspaceId, userId), undefined)) === null
+      ) {
+        return null;
+      }
 
-      this.sendNotification('Timer stopped', 'Your timer has been stopped.');
+      const entry = await this.sendThroughOutbox(
+        TimeEntrySchema,
+        'stop',
+        'PATCH',
+        `/workspaces/${workspaceId}/user/${userId}/time-entries`,
+        {
+          end,
+        },
+      );
 
-      return response.data;
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error('Error stopping timer:', error.message);
-      } else {
-        console.error('Error stopping timer: An unknown error occurred.');
+      if (entry) {
+        this.sendNotification('Timer stopped', 'Your timer has been stopped.');
       }
-      return null;
-    }
-  }
 
-  async getActiveTimer(workspaceId: string, userId: string) {
-    try {
-      const response = await this.httpClient.get(
-        `/workspaces/${workspaceId}/user/${userId}/time-entries?in-progress=true`,
-      );
-      return response.data[0];
+      return entry;
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error('Error fetching active timer:', error.message);
-      } else {
-        console.error('Error fetching active timer: An unknown error occurred.');
-      }
-      return null;
+      return this.recover('stopping timer', error, null);
     }
   }
 
-  async logTime(workspaceId: string, projectId: string | null, start: string, end: string, description: string) {
+  /**
+   * The running entry, or null when no timer runs. Throws an OfflineError when Clockify
+   * can't be reached, so callers don't mistake that for no timer.
+   */
+  async getActiveTimer(workspaceId: string, userId: string): Promise<ClockifyTimeEntry | null> {
+    const entries = await this.get(z.array(TimeEntrySchema), `/workspaces/${workspaceId}/user/${userId}/time-entries`, {
+      'in-progress': true,
+    });
+    return entries[0] ?? null;
+  }
+
+  async logTime(
+    workspaceId: string,
+    projectId: string | null,
+    start: string,
+    end: string,
+    description: string,
+    details: TimeEntryDetails = {},
+  ) {
     if (!projectId) {
       return null;
     }
 
     try {
-      const response = await this.httpClient.post(`/workspaces/${workspaceId}/time-entries`, {
+      const request: TimeEntryRequest = {
         projectId: projectId,
         start: start,
         end: end,
         description: description,
-      });
-      return response.data;
+        ...details,
+      };
+      return await this.sendThroughOutbox(
+        TimeEntrySchema,
+        'log',
+        'POST',
+        `/workspaces/${workspaceId}/time-entries`,
+        request,
+      );
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error('Error logging time:', error.message);
-      } else {
-        console.error('Error logging time: An unknown error occurred.');
+      return this.recover('logging time', error, null);
+    }
+  }
+
+  /**
+   * Throws when Clockify can't be reached, since an empty list would look like the
+   * entries were deleted.
+   */
+  async getTimeEntries(workspaceId: string, userId: string, start: string, end: string): Promise<ClockifyTimeEntry[]> {
+    let allEntries: ClockifyTimeEntry[] = [];
+    let page = 1;
+    const pageSize = 50;
+    let hasMore = true;
+
+    while (hasMore) {
+      const entries = await this.get(
+        z.array(TimeEntrySchema),
+        `/workspaces/${workspaceId}/user/${userId}/time-entries`,
+        {
+          start,
+          end,
+          page,
+          'page-size': pageSize,
+        },
+      );
+
+      allEntries = allEntries.concat(entries);
+      page++;
+      hasMore = entries.length === pageSize;
+    }
+
+    return allEntries;
+  }
+
+  /**
+   * The entry, or null when it doesn't exist (any more).
+   */
+  async getTimeEntry(workspaceId: string, entryId: string): Promise<ClockifyTimeEntry | null> {
+    try {
+      return await this.get(TimeEntrySchema, `/workspaces/${workspaceId}/time-entries/${entryId}`);
+    } catch (error: unknown) {
+      if (error instanceof NotFoundError) {
+        return null;
       }
+      throw error;
+    }
+  }
 
-      return null;
+  async getRecentTimeEntries(workspaceId: string, userId: string, limit = 1): Promise<ClockifyTimeEntry[]> {
+    return this.get(z.array(TimeEntrySchema), `/workspaces/${workspaceId}/user/${userId}/time-entries`, {
+      'page-size': limit,
+    });
+  }
+
+  async updateTimeEntry(workspaceId: string, entry: ClockifyTimeEntry, changes: TimeEntryChanges) {
+    try {
+      return await this.sendThroughOutbox(
+        TimeEntrySchema,
+        'update',
+        'PUT',
+        `/workspaces/${workspaceId}/time-entries/${entry.id}`,
+        {
+          start: changes.start ?? entry.timeInterval.start,
+          end: changes.end !== undefined ? changes.end : entry.timeInterval.end,
+          projectId: changes.projectId ?? entry.projectId,
+          description: changes.description ?? entry.description,
+          taskId: entry.taskId,
+          tagIds: entry.tagIds,
+          billable: entry.billable,
+        },
+      );
+    } catch (error: unknown) {
+      return this.recover('updating time entry', error, null);
+    }
+  }
+
+  async deleteTimeEntry(workspaceId: string, entryId: string) {
+    try {
+      // Clockify answers a delete with the deleted entry or nothing at all.
+      return await this.sendThroughOutbox(
+        z.unknown(),
+        'delete',
+        'DELETE',
+        `/workspaces/${workspaceId}/time-entries/${entryId}`,
+        {},
+      );
+    } catch (error: unknown) {
+      return this.recover('deleting time entry', error, null);
     }
   }
 }
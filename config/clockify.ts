@@ -1,4 +1,11 @@
+import { getConfigValue } from '../lib/credentials.js';
+
+// Read on every request, so `clock login` and `clock config set` apply without a restart.
 export default {
-  baseUrl: 'https://api.clockify.me/api/v1',
-  apiKey: process.env.CLOCKIFY_API_KEY,
+  get baseUrl() {
+    return getConfigValue('clockify.baseUrl')!;
+  },
+  get apiKey() {
+    return getConfigValue('clockify.apiKey');
+  },
 };
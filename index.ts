@@ -4,303 +4,1901 @@ import 'dotenv/config';
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { Clockify } from './clockify.js';
+import { Clockify, ClockifyUser, TimeEntryChanges } from './clockify.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
-import { completeLatestSession, getLatestSession } from './lib/db.js';
-import { stopJiraTimer } from './lib/jira.js';
+import { v4 as uuidv4 } from 'uuid';
+import { calendar_v3 } from 'googleapis';
+import {
+  addEventRule,
+  completeSession,
+  countPendingOutboxOperations,
+  deleteEventRule,
+  deleteTemplate,
+  getBackupDir,
+  getBackups,
+  getEventRules,
+  getLatestSession,
+  getOpenSession,
+  getSession,
+  getSessionsBetween,
+  getSessionsToPrune,
+  getSchemaStatus,
+  getSetting,
+  getTemplates,
+  getTrimmedSecondsBySession,
+  logSessionStart,
+  migrateDatabase,
+  pruneSessions,
+  saveTemplate,
+  setSetting,
+  Template,
+  updateSession,
+} from './lib/db.js';
+import { EntryDetailOptions, resolveEntryDetails, resolveTagIds, TimeEntryDetails } from './lib/entry-details.js';
+import {
+  findJiraWorklog,
+  getJiraDescription,
+  JiraIssue,
+  searchJiraIssues,
+  stopJiraTimer,
+  transitionJiraIssue,
+  updateJiraWorklog,
+  verifyJiraCredentials,
+} from './lib/jira.js';
+import { getMappedProject, JiraConfig, loadJiraConfig } from './lib/jira-config.js';
+import { findMatches } from './lib/fuzzy.js';
+import { logCalendarEvents } from './lib/calendar.js';
+import { CalendarConfig, loadCalendarConfig, RESPONSE_STATUSES } from './lib/calendar-config.js';
+import { OVERLAP_POLICIES, OverlapPolicy } from './lib/calendar-overlap.js';
+import {
+  describeRuleConditions,
+  EVENT_COLORS,
+  findMatchingRule,
+  isValidPattern,
+  resolveColorId,
+} from './lib/calendar-rules.js';
+import { ClockifyResponseError } from './lib/clockify-models.js';
+import { getCalendarClient, runGoogleAuthFlow } from './lib/google.js';
+import {
+  CONFIG_KEYS,
+  ConfigKey,
+  CredentialStoreError,
+  CREDENTIALS_KEY_PATH,
+  CREDENTIALS_PATH,
+  getConfigSource,
+  getConfigValue,
+  getStoreProtection,
+  isConfigKey,
+  isStoreLocked,
+  maskSecret,
+  protectStore,
+  setConfigValues,
+  unlockStore,
+} from './lib/credentials.js';
+import { verifyClockifyApiKey } from './lib/http-client.js';
+import { EXIT_CODES, HttpError, unlessOffline } from './lib/http-errors.js';
+import { findJiraKey, getCurrentBranch } from './lib/git.js';
+import { SchemaVersionError } from './lib/migrations.js';
+import { startMonitor } from './lib/monitor.js';
+import { findDrift, getDriftFixes } from './lib/reconcile.js';
+import {
+  buildStatusState,
+  readStatusState,
+  renderStatus,
+  STATUS_FORMATS,
+  StatusFormat,
+  writeStatusState,
+} from './lib/status-state.js';
+import { findTemplates } from './lib/templates.js';
+import { currentTime, parseDuration, parseMoment } from './lib/time.js';
+import { CALENDAR_CONFIG_PATH, JIRA_CONFIG_PATH, STATUS_STATE_PATH } from './lib/paths.js';
+import { getSessionDetails, getWorklogTotals, stopAndRecord, switchTimer } from './lib/timer.js';
+import {
+  adoptLegacyData,
+  cacheWorkspaces,
+  findWorkspace,
+  getCachedWorkspaces,
+  getLocalProjects,
+  getLocalProjectsPath,
+  getSelectedWorkspaceId,
+  resolveWorkspaceId,
+  saveLocalProjects,
+  setSelectedWorkspaceId,
+} from './lib/workspace.js';
+import {
+  buildReport,
+  formatDuration,
+  REPORT_FORMATS,
+  REPORT_GROUPS,
+  ReportFormat,
+  ReportGroup,
+  renderReport,
+  startOfWeek,
+  toLocalDate,
+} from './lib/report.js';
 
 interface Project {
   id: string;
   name: string;
 }
 
+type CachedUser = Pick<ClockifyUser, 'id' | 'defaultWorkspace'>;
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const program = new Command();
-const clockify = new Clockify();
+const program = new Command();
+const clockify = new Clockify();
+
+// The workspace resolved by the current command, once it has talked to Clockify.
+let currentWorkspaceId: string | null = null;
+
+async function getWorkspaceAndUser() {
+  const liveUser = await unlessOffline(clockify.getUser(), null);
+
+  if (liveUser) {
+    setSetting('clockifyUser', { id: liveUser.id, defaultWorkspace: liveUser.defaultWorkspace });
+  }
+
+  // Fall back to the last known account so timers can still be queued while offline.
+  const user = liveUser ?? getSetting<CachedUser>('clockifyUser');
+
+  if (!user) {
+    console.log(chalk.red('[index] Could not connect to Clockify. Please check your API key.'));
+
+    process.exit(1);
+  }
+
+  if (!liveUser) {
+    console.log(chalk.yellow('[index] Clockify is unreachable. Changes will be queued and synced later.'));
+  }
+
+  adoptLegacyData(user.defaultWorkspace);
+
+  const workspaceId = await resolveWorkspace(user.defaultWorkspace);
+  const userId = user.id;
+  currentWorkspaceId = workspaceId;
+
+  return {
+    workspaceId,
+    userId,
+  };
+}
+
+/**
+ * Resolves `--workspace`, then the workspace chosen with `clock workspace use`, then the
+ * account's default. Exits when the requested workspace doesn't exist.
+ */
+async function resolveWorkspace(defaultWorkspace: string): Promise<string> {
+  const requested: string | undefined = program.opts().workspace;
+  const workspaceId = await resolveWorkspaceId(defaultWorkspace, requested, () =>
+    unlessOffline(clockify.getWorkspaces(), null),
+  );
+
+  if (!workspaceId) {
+    const query = requested ?? getSelectedWorkspaceId();
+    console.log(chalk.red(`No workspace matches "${query}". Run \`clock workspace list\` to see your workspaces.`));
+    process.exit(1);
+  }
+
+  return workspaceId;
+}
+
+/**
+ * The workspace to use without calling Clockify, for commands that only read local data.
+ * Null when no account has been seen yet.
+ */
+function getKnownWorkspaceId(): string | null {
+  if (currentWorkspaceId) {
+    return currentWorkspaceId;
+  }
+
+  const requested: string | undefined = program.opts().workspace ?? getSelectedWorkspaceId() ?? undefined;
+  if (requested) {
+    return findWorkspace(getCachedWorkspaces(), requested)?.id ?? requested;
+  }
+
+  return getSetting<CachedUser>('clockifyUser')?.defaultWorkspace ?? null;
+}
+
+async function getProjectNames(workspaceId: string, projectIds: string[]): Promise<Map<string, string>> {
+  const projectNames = new Map<string, string>();
+  for (const project of await getLocalProjects(workspaceId)) {
+    projectNames.set(project.id, project.name);
+  }
+
+  // Only hit Clockify when the local cache doesn't know every project.
+  // Unknown projects fall back to their IDs when Clockify is unreachable.
+  if (projectIds.some((projectId) => !projectNames.has(projectId))) {
+    for (const project of await unlessOffline(clockify.getProjects(workspaceId), [])) {
+      projectNames.set(project.id, project.name);
+    }
+  }
+
+  return projectNames;
+}
+
+/**
+ * Resolves `--from`/`--to` day options (defaulting to the current week) into an
+ * inclusive day range and the matching ISO instants, end exclusive.
+ */
+function parseDateRange(options: { from?: string; to?: string }) {
+  const from = options.from ?? toLocalDate(startOfWeek(currentTime()));
+  const to = options.to ?? toLocalDate(currentTime());
+  const rangeStart = new Date(`${from}T00:00:00`);
+  const rangeEnd = new Date(`${to}T00:00:00`);
+  if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime()) || rangeEnd < rangeStart) {
+    console.log(chalk.red('Please provide a valid date range in YYYY-MM-DD format.'));
+    process.exit(1);
+  }
+  rangeEnd.setDate(rangeEnd.getDate() + 1);
+
+  return { from, to, rangeStart: rangeStart.toISOString(), rangeEnd: rangeEnd.toISOString() };
+}
+
+/**
+ * Rewrites the status file read by `clock status --format ...` from the local sessions.
+ * Runs after every command and whenever the monitor starts or stops a timer.
+ */
+async function refreshStatusState() {
+  const workspaceId = getKnownWorkspaceId();
+  if (!workspaceId) {
+    return;
+  }
+
+  try {
+    const latestSession = getLatestSession(workspaceId);
+    const projectNames = await getProjectNames(workspaceId, []);
+    writeStatusState(STATUS_STATE_PATH, buildStatusState(getOpenSession(workspaceId), latestSession, projectNames));
+  } catch (error) {
+    console.error('Could not update the status file:', error);
+  }
+}
+
+program
+  .name('tracker')
+  .description('A CLI to track your time in Clockify')
+  .version('1.0.0')
+  .option('--workspace <workspace>', 'Clockify workspace ID or name to use instead of the selected one');
+
+async function getSelectableProjects(workspaceId: string): Promise<Project[]> {
+  let projects: Project[] = await unlessOffline(clockify.getProjects(workspaceId), []);
+  let localProjects = await getLocalProjects(workspaceId);
+
+  if (localProjects.length === 0) {
+    // If local-projects.json is empty or doesn't exist, populate it with all project IDs and names
+    const allProjects = projects.map((p) => ({ id: p.id, name: p.name }));
+    saveLocalProjects(workspaceId, allProjects);
+    console.log(
+      chalk.green(
+        `All projects have been saved to ${path.relative(path.join(__dirname, '..'), getLocalProjectsPath(workspaceId))}. Please edit this file to select your preferred projects.`,
+      ),
+    );
+    localProjects = allProjects;
+  }
+
+  if (projects.length === 0 && localProjects.length > 0) {
+    // Clockify is unreachable; the local project list is enough to queue a start.
+    projects = localProjects;
+  }
+
+  if (localProjects.length > 0) {
+    const localProjectIds = localProjects.map((p) => p.id);
+    projects = projects.filter((p) => localProjectIds.includes(p.id));
+  }
+
+  return projects;
+}
+
+async function promptForProject(projects: Project[]): Promise<string> {
+  const { selectedProjectId } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'selectedProjectId',
+      message: 'Which project do you want to work on?',
+      choices: projects.map((p: { name: string; id: string }) => ({ name: p.name, value: p.id })),
+    },
+  ]);
+
+  return selectedProjectId;
+}
+
+/**
+ * Finds a project by ID or (case-insensitive) name, or asks the user to pick one
+ * when no query is given. Exits when nothing matches.
+ */
+async function selectProject(workspaceId: string, query?: string): Promise<Project> {
+  const projects = await getSelectableProjects(workspaceId);
+
+  if (projects.length === 0) {
+    console.log(chalk.yellow('No projects found in your workspace.'));
+    process.exit(1);
+  }
+
+  if (!query) {
+    const selectedProjectId = await promptForProject(projects);
+    return projects.find((p) => p.id === selectedProjectId)!;
+  }
+
+  const project = findProject(projects, query);
+  if (!project) {
+    console.log(chalk.red(`No project matches "${query}".`));
+    process.exit(1);
+  }
+
+  return project;
+}
+
+function findProject(projects: Project[], query: string): Project | undefined {
+  return projects.find((p) => p.id === query || p.name.toLowerCase() === query.toLowerCase());
+}
+
+function resolveTemplate(query: string): Template {
+  const matches = findTemplates(getTemplates(), query);
+
+  if (matches.length === 0) {
+    console.log(chalk.red(`No template matches "${query}". Run \`clock template list\` to see your templates.`));
+    process.exit(1);
+  }
+
+  if (matches.length > 1) {
+    console.log(chalk.red(`"${query}" matches several templates: ${matches.map((t) => t.name).join(', ')}.`));
+    process.exit(1);
+  }
+
+  return matches[0];
+}
+
+function collect(value: string, previous: string[]) {
+  return [...previous, value];
+}
+
+/**
+ * Resolves `--task`, `--tag` and `--billable` for an entry in `projectId`. `defaultTags`
+ * (e.g. a template's) apply when no `--tag` is given. Exits when a name matches nothing.
+ */
+async function getEntryDetails(
+  workspaceId: string,
+  projectId: string,
+  options: EntryDetailOptions,
+  defaultTags: string[] = [],
+): Promise<TimeEntryDetails> {
+  const tag = options.tag === true || (options.tag && options.tag.length > 0) ? options.tag : defaultTags;
+
+  try {
+    return await resolveEntryDetails(
+      { ...options, tag },
+      () => clockify.getTasks(workspaceId, projectId),
+      () => clockify.getTags(workspaceId),
+    );
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+interface StartOptions extends EntryDetailOptions {
+  jira?: string | true;
+  fromGit?: boolean;
+  template?: string;
+  transition?: boolean;
+  jql?: string;
+}
+
+function getJiraConfig(): JiraConfig {
+  try {
+    return loadJiraConfig(JIRA_CONFIG_PATH);
+  } catch (err) {
+    console.log(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
+
+/**
+ * Lets the user pick one of the issues found by `jql` (the configured search by default),
+ * narrowed down by `query`. Exits when Jira isn't set up or nothing matches.
+ */
+async function pickJiraIssue(config: JiraConfig, query?: string, jql = config.jql): Promise<JiraIssue> {
+  const issues = await searchJiraIssues(jql);
+  if (!issues) {
+    console.log(chalk.red('Jira is not set up. Run `clock login jira` first.'));
+    process.exit(1);
+  }
+
+  const matches = query ? findMatches(issues, query, (issue) => `${issue.key} ${issue.summary}`) : issues;
+  if (matches.length === 0) {
+    console.log(chalk.yellow(query ? `No issue matches "${query}".` : `No issues found for: ${jql}`));
+    process.exit(1);
+  }
+
+  if (query && matches.length === 1) {
+    return matches[0];
+  }
+
+  const { issue } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'issue',
+      message: 'Which issue are you working on?',
+      pageSize: 15,
+      choices: matches.map((i) => ({
+        name: `${chalk.bold(i.key)} ${i.summary} ${chalk.gray(`[${i.status}]`)}`,
+        value: i,
+      })),
+    },
+  ]);
+
+  return issue;
+}
+
+/**
+ * The Jira key in the current git branch's name. `explicit` reports why none was found.
+ */
+async function getJiraKeyFromGit(config: JiraConfig, explicit: boolean): Promise<string | undefined> {
+  const branch = await getCurrentBranch();
+  const key = branch ? findJiraKey(branch, config.branchPattern) : null;
+
+  if (key) {
+    console.log(chalk.gray(`Using ${key} from branch ${branch}.`));
+  } else if (explicit) {
+    console.log(
+      chalk.yellow(branch ? `No Jira key found in branch "${branch}".` : 'Not on a git branch.') +
+        chalk.yellow(' Starting without a Jira ticket.'),
+    );
+  }
+
+  return key ?? undefined;
+}
+
+/**
+ * Starts a timer for `clock start` and `clock jira`. A Jira project mapped in
+ * `data/jira.json` replaces the project prompt.
+ */
+async function startTimerCommand(message: string | undefined, options: StartOptions, issueQuery?: string) {
+  const { workspaceId } = await getWorkspaceAndUser();
+  const jiraConfig = getJiraConfig();
+
+  let jiraTicket = typeof options.jira === 'string' ? options.jira : undefined;
+  if (options.jira === true) {
+    jiraTicket = (await pickJiraIssue(jiraConfig, issueQuery, options.jql)).key;
+  } else if (!jiraTicket && (options.fromGit ?? (!options.template && jiraConfig.startFromGit))) {
+    // The configured default doesn't override a template's own ticket; an explicit --from-git does.
+    jiraTicket = await getJiraKeyFromGit(jiraConfig, options.fromGit === true);
+  }
+
+  let entry;
+  if (options.template) {
+    const template = resolveTemplate(options.template);
+    const details = await getEntryDetails(workspaceId, template.projectId, options, template.tags);
+    jiraTicket ??= template.jiraTicket ?? undefined;
+    entry = await clockify.startTimer(
+      workspaceId,
+      template.projectId,
+      message ?? template.description ?? undefined,
+      jiraTicket,
+      undefined,
+      details,
+    );
+    if (entry) {
+      const projectName = (await getProjectNames(workspaceId, [template.projectId])).get(template.projectId);
+      console.log(
+        chalk.green(`Timer started for project: ${chalk.bold(projectName ?? template.projectId)} (${template.name})`),
+      );
+    }
+  } else {
+    const mappedProject = jiraTicket ? getMappedProject(jiraConfig, jiraTicket) : undefined;
+    let project: Project;
+    if (mappedProject) {
+      project = await selectProject(workspaceId, mappedProject);
+    } else {
+      const projects = await getSelectableProjects(workspaceId);
+
+      if (!projects || projects.length === 0) {
+        console.log(chalk.yellow('No projects found in your workspace.'));
+
+        return;
+      }
+
+      const selectedProjectId = await promptForProject(projects);
+      project = projects.find((p) => p.id === selectedProjectId)!;
+    }
+
+    const details = await getEntryDetails(workspaceId, project.id, options);
+    entry = await clockify.startTimer(workspaceId, project.id, message, jiraTicket, undefined, details);
+    if (entry) {
+      console.log(chalk.green(`Timer started for project: ${chalk.bold(project.name)}`));
+    }
+  }
+
+  if (entry && jiraTicket && (options.transition ?? jiraConfig.transitionOnStart)) {
+    // The timer is running either way, so a failed transition is only a warning.
+    const moved = await transitionJiraIssue(jiraTicket, jiraConfig.transitionTo).catch((error: unknown) => {
+      if (!(error instanceof HttpError)) throw error;
+      console.log(chalk.yellow(error.message));
+      return false;
+    });
+    if (moved) {
+      console.log(chalk.green(`Moved ${jiraTicket} to ${jiraConfig.transitionTo}.`));
+    } else {
+      console.log(chalk.yellow(`Could not move ${jiraTicket} to ${jiraConfig.transitionTo}.`));
+    }
+  }
+}
+
+program
+  .command('start')
+  .description('Start a new time entry. Select a project interactively.')
+  .argument('[message]', 'Description for the time entry')
+  .option('-j, --jira [ticket]', 'Jira ticket number. Pick from your Jira issues when no value is given.')
+  .option('-T, --template <name>', 'Start from a saved template without prompting')
+  .option('-g, --from-git', 'Take the Jira ticket from the current git branch name')
+  .option('--no-from-git', 'Ignore the git branch even when `startFromGit` is set in data/jira.json')
+  .option('--task [task]', 'Clockify task ID or name. Pick from a list when no value is given.')
+  .option('--tag [tag]', 'Clockify tag ID or name (repeatable). Pick from a list when no value is given.', collect, [])
+  .option('--billable', 'Mark the entry as billable')
+  .option('--no-billable', 'Mark the entry as non-billable')
+  .option('--transition', 'Move the Jira issue to "In Progress" (or `transitionTo` in data/jira.json)')
+  .option('--no-transition', 'Leave the Jira issue status unchanged')
+  .action(async (message, options) => {
+    await startTimerCommand(message, options);
+  });
+
+program
+  .command('jira')
+  .description('Pick one of your Jira issues and start a timer for it.')
+  .argument('[query]', 'Narrow the issues down by key or summary, e.g. "login" or "ABC-12"')
+  .option('--jql <jql>', 'Search with this JQL instead of the configured one')
+  .option('-T, --template <name>', 'Use the project, description and tags of a saved template')
+  .option('--task [task]', 'Clockify task ID or name. Pick from a list when no value is given.')
+  .option('--tag [tag]', 'Clockify tag ID or name (repeatable). Pick from a list when no value is given.', collect, [])
+  .option('--billable', 'Mark the entry as billable')
+  .option('--no-billable', 'Mark the entry as non-billable')
+  .option('--transition', 'Move the Jira issue to "In Progress" (or `transitionTo` in data/jira.json)')
+  .option('--no-transition', 'Leave the Jira issue status unchanged')
+  .action(async (query, options) => {
+    await startTimerCommand(undefined, { ...options, jira: true }, query);
+  });
+
+const template = program.command('template').description('Manage saved timer templates.');
+
+template
+  .command('add')
+  .description('Save a project, description, Jira ticket and tags as a named template.')
+  .argument('<name>', 'Template name')
+  .option('-p, --project <project>', 'Clockify project ID or name')
+  .option('-d, --description <description>', 'Description for the time entry')
+  .option('-j, --jira <ticket>', 'Jira ticket number')
+  .option('--tag <tag>', 'Tag to apply (repeatable)', collect, [])
+  .option('-s, --from-session [sessionId]', 'Copy the project, description and ticket of a session (default: latest)')
+  .action(async (name, options) => {
+    const { workspaceId } = await getWorkspaceAndUser();
+    let projectId: string | undefined;
+    let description: string | null = options.description ?? null;
+    let jiraTicket: string | null = options.jira ?? null;
+
+    if (options.fromSession) {
+      const session = options.fromSession === true ? getLatestSession(workspaceId) : getSession(options.fromSession);
+      if (!session) {
+        console.log(chalk.red('No matching session was found.'));
+        process.exit(1);
+      }
+      projectId = session.projectId;
+      description ??= session.description;
+      jiraTicket ??= session.jiraTicket;
+    }
+
+    if (options.project || !projectId) {
+      projectId = (await selectProject(workspaceId, options.project)).id;
+    }
+
+    saveTemplate({ name, projectId, description, jiraTicket, tags: options.tag });
+    console.log(chalk.green(`Template ${chalk.bold(name)} saved. Start it with \`clock start --template ${name}\`.`));
+  });
+
+template
+  .command('list')
+  .description('List saved templates.')
+  .action(async () => {
+    const templates = getTemplates();
+
+    if (templates.length === 0) {
+      console.log(chalk.yellow('No templates saved yet. Add one with `clock template add <name>`.'));
+      return;
+    }
+
+    const workspaceId = getKnownWorkspaceId();
+    const projectNames = workspaceId
+      ? await getProjectNames(
+          workspaceId,
+          templates.map((t) => t.projectId),
+        )
+      : new Map<string, string>();
+    for (const t of templates) {
+      console.log(chalk.bold(t.name));
+      console.log(`   - ${chalk.bold('Project:')} ${projectNames.get(t.projectId) ?? t.projectId}`);
+      if (t.description) console.log(`   - ${chalk.bold('Description:')} ${t.description}`);
+      if (t.jiraTicket) console.log(`   - ${chalk.bold('Jira:')} ${t.jiraTicket}`);
+      if (t.tags.length > 0) console.log(`   - ${chalk.bold('Tags:')} ${t.tags.join(', ')}`);
+    }
+  });
+
+template
+  .command('remove')
+  .alias('rm')
+  .description('Delete a saved template.')
+  .argument('<name>', 'Exact template name')
+  .action((name) => {
+    if (deleteTemplate(name)) {
+      console.log(chalk.green(`Template ${chalk.bold(name)} removed.`));
+    } else {
+      console.log(chalk.yellow(`No template named "${name}".`));
+    }
+  });
+
+const workspace = program.command('workspace').description('List Clockify workspaces and choose the one to work in.');
+
+workspace
+  .command('list')
+  .description('List your Clockify workspaces. The one commands use is marked with *.')
+  .action(async () => {
+    const { workspaceId } = await getWorkspaceAndUser();
+    const workspaces = await clockify.getWorkspaces();
+
+    if (!workspaces) {
+      console.log(chalk.red('Could not fetch your workspaces from Clockify.'));
+      process.exit(1);
+    }
+
+    cacheWorkspaces(workspaces);
+    for (const w of workspaces) {
+      const isCurrent = w.id === workspaceId;
+      console.log(
+        `${isCurrent ? chalk.green('*') : ' '} ${isCurrent ? chalk.bold(w.name) : w.name} ${chalk.gray(w.id)}`,
+      );
+    }
+  });
+
+workspace
+  .command('use')
+  .description('Make a workspace the default for every command.')
+  .argument('<workspace>', 'Workspace ID or name')
+  .action(async (query) => {
+    const workspaces = await unlessOffline(clockify.getWorkspaces(), null);
+    if (workspaces) {
+      cacheWorkspaces(workspaces);
+    }
+
+    const match = findWorkspace(workspaces ?? getCachedWorkspaces(), query);
+    if (!match) {
+      console.log(chalk.red(`No workspace matches "${query}". Run \`clock workspace list\` to see your workspaces.`));
+      process.exit(1);
+    }
+
+    setSelectedWorkspaceId(match.id);
+    currentWorkspaceId = match.id;
+    console.log(chalk.green(`Now working in ${chalk.bold(match.name)}.`));
+    console.log(chalk.gray('Restart the monitor (`yarn monitor:restart`) if it is running so it follows the switch.'));
+  });
+
+const LOGIN_SERVICES = ['clockify', 'jira', 'google'] as const;
+
+/**
+ * Warns when an environment variable (e.g. from `.env`) hides a value just stored.
+ */
+function warnAboutEnvOverride(keys: ConfigKey[]) {
+  for (const key of keys) {
+    const { env } = CONFIG_KEYS[key];
+    if (process.env[env]) {
+      console.log(chalk.yellow(`${env} is set in your environment and is used instead of the stored ${key}.`));
+    }
+  }
+}
+
+/**
+ * Runs `attempt` until it succeeds or the user gives up. Resolves to whether it succeeded.
+ */
+async function retryUntilVerified(attempt: () => Promise<boolean>): Promise<boolean> {
+  while (!(await attempt())) {
+    const { retry } = await inquirer.prompt([{ type: 'confirm', name: 'retry', message: 'Try again?', default: true }]);
+    if (!retry) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+async function promptForNewPassphrase(): Promise<string> {
+  const { passphrase } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      mask: '*',
+      message: 'Passphrase to protect your credentials:',
+      validate: (value: string) => value.length >= 8 || 'Use at least 8 characters.',
+    },
+  ]);
+  await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'confirmation',
+      mask: '*',
+      message: 'Repeat the passphrase:',
+      validate: (value: string) => value === passphrase || 'The passphrases differ.',
+    },
+  ]);
+
+  return passphrase;
+}
+
+async function loginToClockify(): Promise<boolean> {
+  const baseUrl = getConfigValue('clockify.baseUrl')!;
+
+  return retryUntilVerified(async () => {
+    const { apiKey } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'apiKey',
+        mask: '*',
+        message: 'Clockify API key (Profile settings → API):',
+        validate: (value: string) => value.trim().length > 0 || 'The API key is required.',
+      },
+    ]);
+
+    const name = await verifyClockifyApiKey(baseUrl, apiKey.trim());
+    if (name === null) {
+      console.log(chalk.red('Clockify rejected the API key.'));
+      return false;
+    }
+
+    setConfigValues({ 'clockify.apiKey': apiKey.trim() });
+    console.log(chalk.green(`Logged in to Clockify${name ? ` as ${chalk.bold(name)}` : ''}.`));
+    warnAboutEnvOverride(['clockify.apiKey']);
+    return true;
+  });
+}
+
+async function loginToJira(): Promise<boolean> {
+  return retryUntilVerified(async () => {
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'url',
+        message: 'Jira API URL:',
+        default: getConfigValue('jira.url') ?? 'https://your-org.atlassian.net/rest/api/3',
+      },
+      { type: 'input', name: 'email', message: 'Atlassian account email:', default: getConfigValue('jira.email') },
+      {
+        type: 'password',
+        name: 'apiToken',
+        mask: '*',
+        message: 'Atlassian API token (id.atlassian.com → Security → API tokens):',
+        validate: (value: string) => value.trim().length > 0 || 'The API token is required.',
+      },
+    ]);
+    const credentials = { url: answers.url.trim(), email: answers.email.trim(), apiToken: answers.apiToken.trim() };
+
+    const name = await verifyJiraCredentials(credentials);
+    if (name === null) {
+      console.log(chalk.red('Jira rejected the URL, email or API token.'));
+      return false;
+    }
+
+    setConfigValues({
+      'jira.url': credentials.url,
+      'jira.email': credentials.email,
+      'jira.apiToken': credentials.apiToken,
+    });
+    console.log(chalk.green(`Logged in to Jira as ${chalk.bold(name)}.`));
+    warnAboutEnvOverride(['jira.url', 'jira.email', 'jira.apiToken']);
+    return true;
+  });
+}
+
+async function loginToGoogle(): Promise<boolean> {
+  const { clientId, clientSecret } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'clientId',
+      message: 'Google OAuth client ID:',
+      default: getConfigValue('google.clientId'),
+      validate: (value: string) => value.trim().length > 0 || 'The client ID is required.',
+    },
+    {
+      type: 'password',
+      name: 'clientSecret',
+      mask: '*',
+      message: 'Google OAuth client secret:',
+      validate: (value: string) => value.trim().length > 0 || 'The client secret is required.',
+    },
+  ]);
+  setConfigValues({ 'google.clientId': clientId.trim(), 'google.clientSecret': clientSecret.trim() });
+  warnAboutEnvOverride(['google.clientId', 'google.clientSecret']);
+
+  // Google only checks the client when you authorize it, so that is the verification.
+  return retryUntilVerified(async () => {
+    try {
+      await runGoogleAuthFlow();
+    } catch (error) {
+      console.log(chalk.red(`Google authentication failed: ${error instanceof Error ? error.message : error}`));
+      return false;
+    }
+
+    console.log(chalk.green('Authenticated with Google.'));
+    return true;
+  });
+}
+
+program
+  .command('login')
+  .description('Set up, verify and store your Clockify, Jira and Google credentials.')
+  .argument('[service]', `Only set up one of ${LOGIN_SERVICES.join(', ')}`)
+  .option('--passphrase', 'Protect the stored credentials with a passphrase instead of a key file')
+  .action(async (service: string | undefined, options) => {
+    if (service && !(LOGIN_SERVICES as readonly string[]).includes(service)) {
+      console.log(chalk.red(`Unknown service "${service}". Use one of ${LOGIN_SERVICES.join(', ')}.`));
+      process.exit(1);
+    }
+
+    try {
+      const protection = getStoreProtection();
+      if (options.passphrase && protection !== 'passphrase') {
+        protectStore('passphrase', await promptForNewPassphrase());
+      } else if (!protection) {
+        protectStore('key-file');
+        console.log(
+          chalk.gray(
+            `Your credentials are encrypted with a key kept in ${path.relative(path.join(__dirname, '..'), CREDENTIALS_KEY_PATH)}.`,
+          ),
+        );
+      }
+
+      let succeeded = true;
+      if (!service || service === 'clockify') {
+        succeeded = (await loginToClockify()) && succeeded;
+      }
+
+      for (const [name, label, login] of [
+        ['jira', 'Jira', loginToJira],
+        ['google', 'Google Calendar', loginToGoogle],
+      ] as const) {
+        if (service && service !== name) continue;
+        if (!service) {
+          const { setUp } = await inquirer.prompt([
+            { type: 'confirm', name: 'setUp', message: `Set up ${label}?`, default: false },
+          ]);
+          if (!setUp) continue;
+        }
+        succeeded = (await login()) && succeeded;
+      }
+
+      if (!succeeded) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
+const configCommand = program.command('config').description('Show and change your credentials and API settings.');
+
+configCommand
+  .command('show')
+  .description('Show every setting and where its value comes from. Secrets are masked.')
+  .option('--reveal', 'Show secrets in full')
+  .action((options) => {
+    try {
+      for (const [key, definition] of Object.entries(CONFIG_KEYS) as [ConfigKey, (typeof CONFIG_KEYS)[ConfigKey]][]) {
+        const value = getConfigValue(key);
+        const source = getConfigSource(key);
+        const shown = !value ? chalk.gray('not set') : definition.secret && !options.reveal ? maskSecret(value) : value;
+        const origin = source === 'env' ? `from ${definition.env}` : source === 'default' ? 'default' : null;
+        console.log(`${chalk.bold(key)} ${shown}${origin ? ` ${chalk.gray(`(${origin})`)}` : ''}`);
+      }
+    } catch (error) {
+      console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+
+    const protection = getStoreProtection();
+    if (protection) {
+      console.log(
+        chalk.gray(
+          `\nStored in ${path.relative(path.join(__dirname, '..'), CREDENTIALS_PATH)}, encrypted with ${protection === 'passphrase' ? 'your passphrase' : `the key in ${path.relative(path.join(__dirname, '..'), CREDENTIALS_KEY_PATH)}`}.`,
+        ),
+      );
+    }
+  });
+
+configCommand
+  .command('set')
+  .description('Store a setting. Values set in the environment (e.g. in .env) still take precedence.')
+  .argument('<key>', `One of ${Object.keys(CONFIG_KEYS).join(', ')}`)
+  .argument('[value]', 'The new value. Asked for, hidden, when left out.')
+  .action(async (key: string, value: string | undefined) => {
+    if (!isConfigKey(key)) {
+      console.log(chalk.red(`Unknown setting "${key}". Use one of ${Object.keys(CONFIG_KEYS).join(', ')}.`));
+      process.exit(1);
+    }
+
+    if (value === undefined) {
+      ({ value } = await inquirer.prompt([
+        {
+          type: CONFIG_KEYS[key].secret ? 'password' : 'input',
+          name: 'value',
+          mask: '*',
+          message: `${CONFIG_KEYS[key].description}:`,
+        },
+      ]));
+    }
+
+    try {
+      setConfigValues({ [key]: value!.trim() });
+    } catch (error) {
+      console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+
+    console.log(chalk.green(`${key} saved.`));
+    warnAboutEnvOverride([key]);
+  });
+
+function getCalendarConfig(): CalendarConfig {
+  try {
+    return loadCalendarConfig(CALENDAR_CONFIG_PATH);
+  } catch (err) {
+    console.log(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+}
+
+async function getCalendarApi(): Promise<calendar_v3.Calendar> {
+  let calendarApi: calendar_v3.Calendar | null;
+  try {
+    calendarApi = await getCalendarClient();
+  } catch (err) {
+    console.log(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  if (!calendarApi) {
+    process.exit(1);
+  }
+
+  return calendarApi;
+}
+
+const calendar = program.command('calendar').description('Log Google Calendar events to Clockify.');
+
+calendar
+  .command('auth')
+  .description('Give read-only access to your Google calendars.')
+  .action(async () => {
+    try {
+      await runGoogleAuthFlow();
+    } catch (error) {
+      console.log(chalk.red(`Google authentication failed: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+
+    console.log(chalk.green('Authenticated with Google.'));
+  });
+
+calendar
+  .command('log')
+  .description('Log the events of a date range as time entries.')
+  .option('-s, --start-date <startDate>', 'First day to log, as YYYY-MM-DD')
+  .option('-e, --end-date <endDate>', 'Last day to log, as YYYY-MM-DD')
+  .option('-t, --today', 'Log the events of today')
+  .option(
+    '-p, --project <project>',
+    'Log every event to this Clockify project ID or name instead of following the rules',
+  )
+  .option('--task [task]', 'Clockify task ID or name in each project. Pick from a list when no value is given.')
+  .option('--tag [tag]', 'Clockify tag ID or name (repeatable). Pick from a list when no value is given.', collect, [])
+  .option('--billable', 'Mark the entries as billable')
+  .option('--no-billable', 'Mark the entries as non-billable')
+  .option(
+    '-c, --calendar <calendarId>',
+    'Calendar to log events from (repeatable). Default: the configured ones.',
+    collect,
+    [],
+  )
+  .option(
+    '--response <status>',
+    `Log events with this response of yours (repeatable): ${RESPONSE_STATUSES.join(', ')}`,
+    collect,
+    [],
+  )
+  .option('--free', 'Also log events that show you as free')
+  .option('--no-free', 'Skip events that show you as free')
+  .option('--overlap <policy>', `What to do with events overlapping other entries: ${OVERLAP_POLICIES.join(', ')}`)
+  .option('--dry-run', 'Show what would be logged, moved or deleted without changing anything')
+  .action(async (options) => {
+    const { task, tag, billable, free, dryRun } = options;
+    const today = toLocalDate(currentTime());
+    const startDate: string | undefined = options.today ? today : options.startDate;
+    const endDate: string | undefined = options.today ? today : options.endDate;
+
+    if (!startDate || !endDate) {
+      console.log(chalk.red('Please provide both a start and end date, or use the -t flag for today.'));
+      process.exit(1);
+    }
+    const { rangeStart, rangeEnd } = parseDateRange({ from: startDate, to: endDate });
+
+    const config = getCalendarConfig();
+    const calendars: string[] = options.calendar.length > 0 ? options.calendar : config.calendars;
+    const responseStatuses: string[] = options.response.length > 0 ? options.response : config.responseStatuses;
+    const overlap: OverlapPolicy = options.overlap ?? config.overlap;
+
+    const unknownResponse = responseStatuses.find(
+      (status) => !(RESPONSE_STATUSES as readonly string[]).includes(status),
+    );
+    if (unknownResponse) {
+      console.log(chalk.red(`Unknown response "${unknownResponse}". Use one of ${RESPONSE_STATUSES.join(', ')}.`));
+      process.exit(1);
+    }
+    if (!OVERLAP_POLICIES.includes(overlap)) {
+      console.log(chalk.red(`Unknown overlap policy "${overlap}". Use one of ${OVERLAP_POLICIES.join(', ')}.`));
+      process.exit(1);
+    }
+
+    const { workspaceId, userId } = await getWorkspaceAndUser();
+    const projectId = options.project ? (await selectProject(workspaceId, options.project)).id : undefined;
+    const projects = projectId ? [] : await getSelectableProjects(workspaceId);
+
+    let tagIds: string[] | undefined;
+    if (tag === true || tag.length > 0) {
+      try {
+        tagIds = await resolveTagIds(await clockify.getTags(workspaceId), tag);
+      } catch (error) {
+        if (error instanceof HttpError) throw error;
+        console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    }
+
+    // Tasks belong to a project, so `--task` is resolved once for each project events are logged to.
+    const detailsByProject = new Map<string, TimeEntryDetails>();
+    const getDetails = async (eventProjectId: string): Promise<TimeEntryDetails> => {
+      if (!detailsByProject.has(eventProjectId)) {
+        let details: TimeEntryDetails = {};
+        try {
+          details = await resolveEntryDetails(
+            { task, billable },
+            () => clockify.getTasks(workspaceId, eventProjectId),
+            () => clockify.getTags(workspaceId),
+          );
+        } catch (error) {
+          console.log(chalk.yellow(`${error instanceof Error ? error.message : error} Logging without a task.`));
+          details = { billable };
+        }
+        detailsByProject.set(eventProjectId, { ...details, tagIds });
+      }
+      return detailsByProject.get(eventProjectId)!;
+    };
+
+    const calendarApi = await getCalendarApi();
+
+    console.log(`Checking for events between ${startDate} and ${endDate}${dryRun ? ' (dry run)' : ''}...`);
 
-async function getLocalProjects(): Promise<Project[]> {
-  const dataDir = path.join(__dirname, '../data');
-  const localProjectsPath = path.join(dataDir, 'local-projects.json');
-  try {
-    // Ensure the data directory exists
-    await fs.promises.mkdir(dataDir, { recursive: true });
-    // If the file does not exist, create it with an empty array
     try {
-      await fs.promises.access(localProjectsPath, fs.constants.F_OK);
-    } catch {
-      await fs.promises.writeFile(localProjectsPath, '[]', 'utf8');
+      const { events } = await logCalendarEvents(
+        { clockify, calendar: calendarApi, workspaceId, userId, projects, getDetails },
+        {
+          timeMin: rangeStart,
+          timeMax: rangeEnd,
+          calendars,
+          responseStatuses,
+          logFreeEvents: free ?? config.logFreeEvents,
+          overlap,
+          projectId,
+          dryRun,
+          interactive: true,
+        },
+      );
+
+      if (events === 0) {
+        console.log('No upcoming events found for the specified date range.');
+      } else {
+        console.log('Done!');
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      console.log(chalk.red('The Google Calendar API returned an error: ' + error));
+      process.exit(1);
     }
-    const data = await fs.promises.readFile(localProjectsPath, 'utf8');
-    return JSON.parse(data);
-  } catch (_error: unknown) {
-    return [];
-  }
-}
+  });
 
-async function getWorkspaceAndUser() {
-  const user = await clockify.getUser();
+calendar
+  .command('calendars')
+  .description('List your Google calendars. The ones logged by default are marked with *.')
+  .action(async () => {
+    const config = getCalendarConfig();
+    const calendarApi = await getCalendarApi();
 
-  if (!user) {
-    console.log(chalk.red('[index] Could not connect to Clockify. Please check your API key.'));
+    const res = await calendarApi.calendarList.list();
+    for (const item of res.data.items ?? []) {
+      const isLogged = config.calendars.includes(item.id!) || (item.primary && config.calendars.includes('primary'));
+      const name = item.summaryOverride ?? item.summary ?? item.id;
+      console.log(`${isLogged ? chalk.green('*') : ' '} ${isLogged ? chalk.bold(name) : name} ${chalk.gray(item.id)}`);
+    }
+  });
 
-    process.exit(1);
-  }
+const rules = calendar.command('rules').description('Manage the rules that map calendar events to projects.');
 
-  const workspaceId = user.defaultWorkspace;
-  const userId = user.id;
+rules
+  .command('list')
+  .description('List the rules in the order they are tried.')
+  .action(async () => {
+    const { workspaceId } = await getWorkspaceAndUser();
 
-  return {
-    workspaceId,
-    userId,
-  };
-}
+    const eventRules = getEventRules(workspaceId);
+    if (eventRules.length === 0) {
+      console.log(chalk.yellow('No rules yet. Add one with `clock calendar rules add`.'));
+      return;
+    }
+
+    const projectNames = await getProjectNames(
+      workspaceId,
+      eventRules.flatMap((rule) => (rule.projectId ? [rule.projectId] : [])),
+    );
+    for (const rule of eventRules) {
+      const action = rule.projectId
+        ? `→ ${projectNames.get(rule.projectId) ?? rule.projectId}`
+        : chalk.yellow('→ skip');
+      console.log(
+        `${chalk.gray(`#${rule.id}`)} ${chalk.gray(`[${rule.priority}]`)} ${describeRuleConditions(rule)} ${action}`,
+      );
+    }
+  });
+
+rules
+  .command('add')
+  .description('Add a rule. Every condition given must hold for an event to match.')
+  .option('--title <pattern>', 'Regular expression for the event title, e.g. "^Sprint \\d+ Review$"')
+  .option('--organizer <pattern>', "Regular expression for the organizer's email or name")
+  .option('--attendee-domain <domain>', 'Match events with an attendee from this email domain')
+  .option('--calendar <calendarId>', 'Match events from this calendar')
+  .option('--color <color>', `Match events with this color: ${Object.keys(EVENT_COLORS).join(', ')} or its ID`)
+  .option('-p, --project <project>', 'Clockify project ID or name to log matching events to')
+  .option('--skip', "Don't log matching events")
+  .option('--priority <priority>', 'Rules with a higher priority are tried first', '0')
+  .action(async (options) => {
+    const conditions = [options.title, options.organizer, options.attendeeDomain, options.calendar, options.color];
+    if (conditions.every((condition) => condition === undefined)) {
+      console.log(chalk.red('Give at least one of --title, --organizer, --attendee-domain, --calendar or --color.'));
+      process.exit(1);
+    }
+
+    for (const pattern of [options.title, options.organizer]) {
+      if (pattern !== undefined && !isValidPattern(pattern)) {
+        console.log(chalk.red(`"${pattern}" is not a valid regular expression.`));
+        process.exit(1);
+      }
+    }
+
+    const colorId = options.color === undefined ? null : resolveColorId(options.color);
+    if (options.color !== undefined && !colorId) {
+      console.log(chalk.red(`Unknown color "${options.color}". Use one of ${Object.keys(EVENT_COLORS).join(', ')}.`));
+      process.exit(1);
+    }
+
+    const priority = Number(options.priority);
+    if (!Number.isInteger(priority)) {
+      console.log(chalk.red('--priority must be a whole number.'));
+      process.exit(1);
+    }
+
+    if (options.skip && options.project) {
+      console.log(chalk.red('Use either --project or --skip.'));
+      process.exit(1);
+    }
+
+    const { workspaceId } = await getWorkspaceAndUser();
+    const projectId = options.skip ? null : (await selectProject(workspaceId, options.project)).id;
+
+    const id = addEventRule({
+      workspaceId,
+      priority,
+      title: options.title ?? null,
+      organizer: options.organizer ?? null,
+      attendeeDomain: options.attendeeDomain ?? null,
+      calendarId: options.calendar ?? null,
+      colorId,
+      projectId,
+    });
+    console.log(chalk.green(`Rule #${id} added.`));
+  });
+
+rules
+  .command('remove')
+  .alias('rm')
+  .description('Delete a rule.')
+  .argument('<id>', 'Rule number, as shown by `clock calendar rules list`')
+  .action(async (id) => {
+    const { workspaceId } = await getWorkspaceAndUser();
+
+    if (deleteEventRule(workspaceId, Number(id))) {
+      console.log(chalk.green(`Rule #${id} removed.`));
+    } else {
+      console.log(chalk.yellow(`No rule #${id} in this workspace.`));
+    }
+  });
+
+rules
+  .command('test')
+  .description('Show which rule an event would match, without logging anything.')
+  .argument('<title>', 'Event title')
+  .option('--organizer <email>', "Organizer's email")
+  .option('--attendee <email>', 'Attendee email (repeatable)', collect, [])
+  .option('--calendar <calendarId>', 'Calendar the event is in', 'primary')
+  .option('--color <color>', 'Event color name or ID')
+  .action(async (title, options) => {
+    const { workspaceId } = await getWorkspaceAndUser();
+
+    const event = {
+      summary: title,
+      organizer: options.organizer ? { email: options.organizer } : undefined,
+      attendees: options.attendee.map((email: string) => ({ email })),
+      colorId: options.color === undefined ? undefined : (resolveColorId(options.color) ?? options.color),
+    };
+    const rule = findMatchingRule(getEventRules(workspaceId), event, options.calendar);
+
+    if (!rule) {
+      console.log(chalk.yellow('No rule matches; you would be asked for a project.'));
+    } else if (!rule.projectId) {
+      console.log(`Rule #${rule.id} (${describeRuleConditions(rule)}) matches: the event is skipped.`);
+    } else {
+      const projectNames = await getProjectNames(workspaceId, [rule.projectId]);
+      console.log(
+        `Rule #${rule.id} (${describeRuleConditions(rule)}) matches: logged to ${chalk.bold(projectNames.get(rule.projectId) ?? rule.projectId)}.`,
+      );
+    }
+  });
 
-program.name('tracker').description('A CLI to track your time in Clockify').version('1.0.0');
+program
+  .command('stop')
+  .description('Stop the currently running time entry.')
+  .action(async () => {
+    const { workspaceId, userId } = await getWorkspaceAndUser();
+    if (await stopAndRecord({ clockify, workspaceId, userId })) {
+      console.log(chalk.red('Timer stopped.'));
+    } else {
+      console.log(chalk.yellow('No timer was running.'));
+    }
+  });
 
 program
-  .command('start')
-  .description('Start a new time entry. Select a project interactively.')
-  .argument('[message]', 'Description for the time entry')
+  .command('switch')
+  .description('Stop the running time entry and start a new one at the same moment.')
+  .argument('[message]', 'Description for the new time entry')
+  .option('-p, --project <project>', 'Clockify project ID or name')
   .option('-j, --jira <ticket>', 'Jira ticket number')
+  .option('-T, --template <name>', 'Switch to a saved template')
   .action(async (message, options) => {
-    const { workspaceId } = await getWorkspaceAndUser();
+    const { workspaceId, userId } = await getWorkspaceAndUser();
 
-    let projects: Project[] = await clockify.getProjects(workspaceId);
-    let localProjects = await getLocalProjects();
+    // Resolve the next task before touching the running timer, so a cancelled prompt changes nothing.
+    let projectId: string;
+    let description: string | undefined = message;
+    let jiraTicket: string | undefined = options.jira;
+    if (options.template) {
+      const template = resolveTemplate(options.template);
+      projectId = template.projectId;
+      description ??= template.description ?? undefined;
+      jiraTicket ??= template.jiraTicket ?? undefined;
+    } else {
+      projectId = (await selectProject(workspaceId, options.project)).id;
+    }
 
-    if (localProjects.length === 0) {
-      // If local-projects.json is empty or doesn't exist, populate it with all project IDs and names
-      const allProjects = projects.map((p) => ({ id: p.id, name: p.name }));
-      const localProjectsPath = path.join(__dirname, '../data/local-projects.json');
-      fs.writeFileSync(localProjectsPath, JSON.stringify(allProjects, null, 2), 'utf8');
+    const switched = await switchTimer({ clockify, workspaceId, userId }, projectId, description, jiraTicket);
+    if (!switched) {
       console.log(
-        chalk.green(
-          'All projects have been saved to data/local-projects.json. Please edit this file to select your preferred projects.',
+        chalk.red(
+          'Could not stop the running timer, so no new timer was started. Run `clock sync` to check for drift.',
         ),
       );
-      localProjects = allProjects;
+      process.exit(1);
+    }
+
+    if (switched.entry) {
+      const projectName = (await getProjectNames(workspaceId, [projectId])).get(projectId) ?? projectId;
+      console.log(chalk.green(`Switched to project: ${chalk.bold(projectName)}`));
     }
+  });
 
-    if (localProjects.length > 0) {
-      const localProjectIds = localProjects.map((p) => p.id);
-      projects = projects.filter((p) => localProjectIds.includes(p.id));
+program
+  .command('pause')
+  .description('Stop the running time entry so it can be resumed later with `clock resume`.')
+  .action(async () => {
+    const { workspaceId, userId } = await getWorkspaceAndUser();
+    if (await stopAndRecord({ clockify, workspaceId, userId })) {
+      console.log(chalk.yellow('Timer paused. Run `clock resume` to continue.'));
+    } else {
+      console.log(chalk.yellow('No timer was running.'));
     }
+  });
 
-    if (!projects || projects.length === 0) {
-      console.log(chalk.yellow('No projects found in your workspace.'));
+program
+  .command('resume')
+  .description('Start a new time entry with the project, description and Jira ticket of the last session.')
+  .action(async () => {
+    const { workspaceId, userId } = await getWorkspaceAndUser();
 
+    const activeEntry = await unlessOffline(clockify.getActiveTimer(workspaceId, userId), null);
+    if (activeEntry) {
+      console.log(chalk.yellow('A timer is already running.'));
       return;
     }
 
-    const { selectedProjectId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedProjectId',
-        message: 'Which project do you want to work on?',
-        choices: projects.map((p: { name: string; id: string }) => ({ name: p.name, value: p.id })),
-      },
-    ]);
+    const latestSession = getLatestSession(workspaceId);
+    if (!latestSession) {
+      console.log(chalk.yellow('There is no previous session to resume. Start one with `clock start`.'));
+      return;
+    }
 
-    const entry = await clockify.startTimer(workspaceId, selectedProjectId, message, options.jira);
+    const entry = await clockify.startTimer(
+      workspaceId,
+      latestSession.projectId,
+      latestSession.description,
+      latestSession.jiraTicket ?? undefined,
+      undefined,
+      getSessionDetails(latestSession),
+    );
     if (entry) {
-      const projectName = projects.find((p: { name: string; id: string }) => p.id === selectedProjectId)?.name;
-      console.log(chalk.green(`Timer started for project: ${chalk.bold(projectName)}`));
+      console.log(chalk.green(`Timer resumed: ${latestSession.description}`));
     }
   });
 
+/**
+ * Parses a `--from`/`--to` style option, exiting with a helpful message when invalid.
+ */
+function parseMomentOption(name: string, value: string, day?: string): Date {
+  const moment = parseMoment(value, { day });
+  if (!moment) {
+    console.log(chalk.red(`Could not understand ${name} "${value}". Try 09:30, "2025-07-21 09:30" or "15m ago".`));
+    process.exit(1);
+  }
+
+  return moment;
+}
+
 program
-  .command('stop')
-  .description('Stop the currently running time entry.')
-  .action(async () => {
+  .command('log')
+  .description('Log a finished time entry, e.g. when you forgot to start a timer.')
+  .argument('[message]', 'Description for the time entry')
+  .option('-p, --project <project>', 'Clockify project ID or name')
+  .option('-j, --jira <ticket>', 'Jira ticket number')
+  .option('--from <time>', 'Start time, e.g. 09:00, "2025-07-21 09:00" or "2h ago"')
+  .option('--to <time>', 'End time. Defaults to now.')
+  .option('--ended <time>', 'Same as --to, e.g. "5m ago"')
+  .option('--duration <duration>', 'Duration, e.g. 1h30m, 45m or 1.5h')
+  .option('--date <date>', 'Day (YYYY-MM-DD) for times given as HH:mm. Defaults to today.')
+  .option('--task [task]', 'Clockify task ID or name. Pick from a list when no value is given.')
+  .option('--tag [tag]', 'Clockify tag ID or name (repeatable). Pick from a list when no value is given.', collect, [])
+  .option('--billable', 'Mark the entry as billable')
+  .option('--no-billable', 'Mark the entry as non-billable')
+  .action(async (message, options) => {
+    const duration = options.duration ? parseDuration(options.duration) : null;
+    if (options.duration && !duration) {
+      console.log(chalk.red(`Could not understand duration "${options.duration}". Try 1h30m, 45m or 1.5h.`));
+      process.exit(1);
+    }
+
+    const endOption = options.to ?? options.ended;
+    let start = options.from ? parseMomentOption('--from', options.from, options.date) : null;
+    let end = endOption ? parseMomentOption('--to', endOption, options.date) : null;
+
+    if (!start && !duration) {
+      console.log(chalk.red('Please provide --from or --duration.'));
+      process.exit(1);
+    }
+    if (start && end && duration) {
+      console.log(chalk.red('Please provide only two of --from, --to and --duration.'));
+      process.exit(1);
+    }
+
+    if (!end) {
+      end = start && duration ? new Date(start.getTime() + duration * 1000) : currentTime();
+    }
+    start ??= new Date(end.getTime() - duration! * 1000);
+
+    if (start >= end) {
+      console.log(chalk.red('The entry must end after it starts.'));
+      process.exit(1);
+    }
+
+    const { workspaceId } = await getWorkspaceAndUser();
+    const project = await selectProject(workspaceId, options.project);
+    const details = await getEntryDetails(workspaceId, project.id, options);
+    const description = await getJiraDescription(options.jira, message ?? 'Working on a task...');
+
+    const entry = await clockify.logTime(
+      workspaceId,
+      project.id,
+      start.toISOString(),
+      end.toISOString(),
+      description,
+      details,
+    );
+    if (!entry) {
+      console.log(chalk.red('Could not log the time entry.'));
+      process.exit(1);
+    }
+
+    const sessionId = uuidv4();
+    logSessionStart(sessionId, workspaceId, project.id, description, start.toISOString(), options.jira, details);
+    completeSession(sessionId, end.toISOString());
+
+    const timeSpentSeconds = Math.round((end.getTime() - start.getTime()) / 1000);
+    if (options.jira && timeSpentSeconds >= 60) {
+      const worklog = await stopJiraTimer(options.jira, timeSpentSeconds, start.toISOString(), description);
+      if (worklog?.id) {
+        updateSession(sessionId, { jiraWorklogId: String(worklog.id) });
+      }
+    }
+
+    console.log(
+      chalk.green(`Logged ${formatDuration(timeSpentSeconds)} to ${chalk.bold(project.name)}: ${description}`),
+    );
+  });
+
+program
+  .command('edit')
+  .description('Edit the description, project or times of the running or most recent time entry.')
+  .option('-d, --description <description>', 'New description')
+  .option('-p, --project <project>', 'New Clockify project ID or name')
+  .option('--from <time>', 'New start time, e.g. 09:00 or "20m ago"')
+  .option('--to <time>', 'New end time (only for stopped entries)')
+  .option('--date <date>', 'Day (YYYY-MM-DD) for times given as HH:mm. Defaults to today.')
+  .action(async (options) => {
     const { workspaceId, userId } = await getWorkspaceAndUser();
-    const latestSession = getLatestSession();
-    const stoppedEntry = await clockify.stopTimer(workspaceId, userId);
-    if (stoppedEntry) {
-      const completedAt = new Date().toISOString();
-      completeLatestSession(completedAt);
-      if (latestSession.jiraTicket) {
-        const timeSpentSeconds = Math.round(
-          (new Date(completedAt).getTime() - new Date(latestSession.startedAt).getTime()) / 1000,
+    const [entry] = await clockify.getRecentTimeEntries(workspaceId, userId, 1);
+
+    if (!entry) {
+      console.log(chalk.yellow('No time entries found.'));
+      return;
+    }
+
+    const isRunning = !entry.timeInterval.end;
+    const changes: TimeEntryChanges = {};
+
+    if (!options.description && !options.project && !options.from && !options.to) {
+      // Nothing given on the command line: walk through each field with the current value as default.
+      const startDefault = new Date(entry.timeInterval.start).toLocaleString('sv-SE').slice(0, 16);
+      const endDefault = isRunning ? undefined : new Date(entry.timeInterval.end!).toLocaleString('sv-SE').slice(0, 16);
+      const answers = await inquirer.prompt([
+        { type: 'input', name: 'description', message: 'Description:', default: entry.description },
+        { type: 'input', name: 'from', message: 'Started at:', default: startDefault },
+        ...(isRunning ? [] : [{ type: 'input', name: 'to', message: 'Ended at:', default: endDefault }]),
+        { type: 'confirm', name: 'changeProject', message: 'Change the project?', default: false },
+      ]);
+      // The prefilled times are cut to the minute, so only times that were edited replace the entry's.
+      Object.assign(options, {
+        description: answers.description,
+        from: answers.from !== startDefault ? answers.from : undefined,
+        to: answers.to !== endDefault ? answers.to : undefined,
+      });
+      if (answers.changeProject) {
+        changes.projectId = (await selectProject(workspaceId)).id;
+      }
+    }
+
+    if (options.description && options.description !== entry.description) {
+      changes.description = options.description;
+    }
+    if (options.project) {
+      changes.projectId = (await selectProject(workspaceId, options.project)).id;
+    }
+    if (options.from) {
+      changes.start = parseMomentOption('--from', options.from, options.date).toISOString();
+    }
+    if (options.to && !isRunning) {
+      changes.end = parseMomentOption('--to', options.to, options.date).toISOString();
+    }
+
+    const start = changes.start ?? entry.timeInterval.start;
+    const end = changes.end ?? entry.timeInterval.end;
+    if (end && new Date(start) >= new Date(end)) {
+      console.log(chalk.red('The entry must end after it starts.'));
+      process.exit(1);
+    }
+
+    const updated = await clockify.updateTimeEntry(workspaceId, entry, changes);
+    if (!updated) {
+      console.log(chalk.red('Could not update the time entry.'));
+      process.exit(1);
+    }
+
+    // The local session for this entry is the one that started at (roughly) the same time.
+    const session = getSessionsBetween(
+      workspaceId,
+      new Date(new Date(entry.timeInterval.start).getTime() - 60_000).toISOString(),
+      new Date(new Date(entry.timeInterval.start).getTime() + 60_000).toISOString(),
+    )[0];
+
+    if (session) {
+      updateSession(session.id, {
+        ...(changes.projectId ? { projectId: changes.projectId } : {}),
+        ...(changes.description ? { description: changes.description } : {}),
+        startedAt: start,
+        completedAt: end,
+      });
+
+      if (session.jiraTicket && session.jiraWorklogId && end && (changes.start || changes.end)) {
+        // The worklog may cover resumed segments too, so recompute it from all of them.
+        const { started, timeSpentSeconds } = getWorklogTotals(session.jiraWorklogId);
+        await updateJiraWorklog(
+          session.jiraTicket,
+          session.jiraWorklogId,
+          timeSpentSeconds,
+          started,
+          changes.description ?? session.description,
         );
-        if (timeSpentSeconds >= 60) {
-          try {
-            await stopJiraTimer(latestSession.jiraTicket, timeSpentSeconds);
-          } catch (error) {
-            console.error('Error stopping Jira timer:', error);
-          }
+      } else if (session.jiraTicket && end && (changes.start || changes.end)) {
+        const timeSpentSeconds = Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000);
+        const worklog = await findJiraWorklog(
+          session.jiraTicket,
+          [session.startedAt, session.completedAt].filter((time): time is string => !!time),
+        );
+        if (worklog) {
+          await updateJiraWorklog(
+            session.jiraTicket,
+            worklog.id,
+            timeSpentSeconds,
+            start,
+            changes.description ?? session.description,
+          );
+          updateSession(session.id, { jiraWorklogId: worklog.id });
+        } else {
+          console.log(chalk.yellow(`No matching Jira worklog found on ${session.jiraTicket}; it was left unchanged.`));
         }
       }
-      console.log(chalk.red('Timer stopped.'));
     } else {
-      console.log(chalk.yellow('No timer was running.'));
+      console.log(chalk.yellow('No matching local session was found; only Clockify was updated.'));
     }
+
+    console.log(chalk.green('Time entry updated.'));
   });
 
 program
   .command('status')
   .description('Check the status of the current timer.')
-  .action(async () => {
+  .option(
+    '-o, --format <format>',
+    `Output format: ${STATUS_FORMATS.join(', ')}. All but text answer from the local status file.`,
+    'text',
+  )
+  .option('-w, --watch', 'Keep printing the status whenever it changes (not for text)')
+  .action(async (options) => {
+    const format = options.format as StatusFormat;
+    if (!STATUS_FORMATS.includes(format)) {
+      console.log(chalk.red(`Invalid format "${format}". Use one of: ${STATUS_FORMATS.join(', ')}.`));
+      process.exit(1);
+    }
+
+    if (format !== 'text') {
+      if (!fs.existsSync(STATUS_STATE_PATH)) {
+        await refreshStatusState();
+      }
+
+      const print = () => console.log(renderStatus(readStatusState(STATUS_STATE_PATH), format));
+      print();
+
+      if (options.watch) {
+        // Re-render when start/stop/monitor update the file, and every minute for the elapsed time.
+        fs.watchFile(STATUS_STATE_PATH, { interval: 1000 }, print);
+        setInterval(print, 60_000);
+      }
+      return;
+    }
+
     const { workspaceId, userId } = await getWorkspaceAndUser();
-    const activeEntry = await clockify.getActiveTimer(workspaceId, userId);
+    await clockify.syncOutbox({ force: true });
+    const activeEntry = await unlessOffline(clockify.getActiveTimer(workspaceId, userId), undefined);
+    const pendingOperations = countPendingOutboxOperations();
 
-    if (activeEntry) {
+    if (pendingOperations > 0) {
+      console.log(chalk.yellow(`${pendingOperations} change(s) are waiting to be synced to Clockify.`));
+    }
+
+    if (activeEntry === undefined) {
+      const openSession = getOpenSession(workspaceId);
+      console.log(chalk.yellow('Could not reach Clockify to check for a running timer.'));
+      if (openSession) {
+        console.log(`   - ${chalk.bold('Started locally:')} ${new Date(openSession.startedAt).toLocaleString()}`);
+      }
+    } else if (activeEntry) {
       const startTime = new Date(activeEntry.timeInterval.start);
-      const duration = (new Date().getTime() - startTime.getTime()) / 1000; // in seconds
+      const duration = (currentTime().getTime() - startTime.getTime()) / 1000; // in seconds
       const hours = Math.floor(duration / 3600);
       const minutes = Math.floor((duration % 3600) / 60);
+      const { projectId } = activeEntry;
+      const projectName = projectId
+        ? ((await getProjectNames(workspaceId, [projectId])).get(projectId) ?? projectId)
+        : 'No project';
 
       console.log(chalk.green('🕒 A timer is currently running.'));
-      console.log(`   - ${chalk.bold('Project:')} ${activeEntry.project.name}`);
+      console.log(`   - ${chalk.bold('Project:')} ${projectName}`);
       console.log(`   - ${chalk.bold('Running for:')} ${hours}h ${minutes}m`);
     } else {
       console.log(chalk.yellow('No timer is currently running.'));
     }
   });
 
-function sleep(ms: number) {
-  return new Promise((res) => setTimeout(res, ms));
-}
+program
+  .command('report')
+  .description('Summarise tracked time from the local sessions database.')
+  .option('-f, --from <date>', 'First day to include (YYYY-MM-DD). Defaults to the start of this week.')
+  .option('-t, --to <date>', 'Last day to include (YYYY-MM-DD). Defaults to today.')
+  .option('-g, --group-by <groups>', `Comma-separated groups: ${REPORT_GROUPS.join(', ')}`, 'day,project')
+  .option('-o, --format <format>', `Output format: ${REPORT_FORMATS.join(', ')}`, 'table')
+  .action(async (options) => {
+    const groupBy = String(options.groupBy)
+      .split(',')
+      .map((group) => group.trim())
+      .filter(Boolean) as ReportGroup[];
+    const invalidGroup = groupBy.find((group) => !REPORT_GROUPS.includes(group));
+    if (groupBy.length === 0 || invalidGroup) {
+      console.log(chalk.red(`Invalid group "${invalidGroup ?? ''}". Use one or more of: ${REPORT_GROUPS.join(', ')}.`));
+      process.exit(1);
+    }
+
+    const format = options.format as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+      console.log(chalk.red(`Invalid format "${format}". Use one of: ${REPORT_FORMATS.join(', ')}.`));
+      process.exit(1);
+    }
+
+    const { workspaceId } = await getWorkspaceAndUser();
+    const { from, to, rangeStart, rangeEnd } = parseDateRange(options);
+    const sessions = getSessionsBetween(workspaceId, rangeStart, rangeEnd);
+
+    const projectNames = await getProjectNames(
+      workspaceId,
+      sessions.map((session) => session.projectId),
+    );
+    const trimmedSeconds = getTrimmedSecondsBySession(sessions.map((session) => session.id));
+
+    const report = buildReport(sessions, { from, to, groupBy, projectNames, trimmedSeconds });
+    console.log(renderReport(report, format));
+  });
 
 program
-  .command('monitor')
-  .description('Monitor system idle time and screen state, and stop the Clockify timer if idle or screen is off.')
-  .action(async () => {
+  .command('sync')
+  .alias('doctor')
+  .description('Compare local sessions with Clockify time entries and fix any drift.')
+  .option('-f, --from <date>', 'First day to check (YYYY-MM-DD). Defaults to the start of this week.')
+  .option('-t, --to <date>', 'Last day to check (YYYY-MM-DD). Defaults to today.')
+  .option('--dry-run', 'Only list the differences, without offering fixes')
+  .action(async (options) => {
     const { workspaceId, userId } = await getWorkspaceAndUser();
+    const { from, to, rangeStart, rangeEnd } = parseDateRange(options);
 
-    async function stopTimerAndLog(reason: string) {
-      const activeEntry = await clockify.getActiveTimer(workspaceId, userId);
-      if (!activeEntry) return false;
+    // Push anything still queued first so it isn't reported as drift.
+    const { blocked } = await clockify.syncOutbox({ force: true });
+    if (blocked) {
+      console.log(chalk.red('Clockify is unreachable or still has queued changes. Please try again later.'));
+      process.exit(1);
+    }
+
+    const sessions = getSessionsBetween(workspaceId, rangeStart, rangeEnd);
+    const entries = await clockify.getTimeEntries(workspaceId, userId, rangeStart, rangeEnd);
+    const issues = findDrift(sessions, entries);
+
+    if (issues.length === 0) {
+      console.log(chalk.green(`Local sessions and Clockify agree for ${from} to ${to}.`));
+      return;
+    }
 
-      console.log(chalk.yellow(reason));
-      const completedAt = new Date().toISOString();
-      const latestSession = getLatestSession();
+    const projectNames = await getProjectNames(workspaceId, [
+      ...sessions.map((session) => session.projectId),
+      ...entries.flatMap((entry) => (entry.projectId ? [entry.projectId] : [])),
+    ]);
+    const projectName = (projectId: string | null) =>
+      projectId ? (projectNames.get(projectId) ?? projectId) : 'No project';
+    const time = (value: string | null) => (value ? new Date(value).toLocaleString() : 'running');
 
-      const stoppedEntry = await clockify.stopTimer(workspaceId, userId);
-      if (!stoppedEntry) return false;
+    console.log(chalk.yellow(`Found ${issues.length} difference(s) between ${from} and ${to}:`));
 
-      completeLatestSession(completedAt, true);
+    for (const issue of issues) {
+      const session = 'session' in issue ? issue.session : null;
+      const entry = 'entry' in issue ? issue.entry : null;
+      const subject = session
+        ? `"${session.description}" (${projectName(session.projectId)})`
+        : `"${entry?.description}" (${projectName(entry?.projectId ?? null)})`;
 
-      if (latestSession?.jiraTicket) {
-        const timeSpentSeconds = Math.round(
-          (new Date(completedAt).getTime() - new Date(latestSession.startedAt).getTime()) / 1000,
+      console.log('');
+      console.log(chalk.bold(`${issue.type}: ${subject}`));
+      if (session) {
+        console.log(`   - ${chalk.bold('Local:')} ${time(session.startedAt)} → ${time(session.completedAt)}`);
+      }
+      if (entry) {
+        console.log(
+          `   - ${chalk.bold('Clockify:')} ${time(entry.timeInterval.start)} → ${time(entry.timeInterval.end)}`,
         );
-        if (timeSpentSeconds >= 60) {
-          try {
-            await stopJiraTimer(latestSession.jiraTicket, timeSpentSeconds);
-          } catch (err) {
-            console.error('Error stopping Jira timer:', err);
-          }
-        }
       }
 
-      console.log(chalk.red('Timer stopped.'));
-      return true;
+      if (options.dryRun) continue;
+
+      const choices = getDriftFixes({ clockify, workspaceId, userId }, issue).map(({ name, apply }) => ({
+        name,
+        value: apply,
+      }));
+      const { fix } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'fix',
+          message: 'How do you want to fix this?',
+          choices: [...choices, { name: chalk.yellow('Skip'), value: null }],
+        },
+      ]);
+
+      if (fix) {
+        await fix();
+      }
     }
+  });
 
-    // Safer restart w/ cooldown; only resume a recent auto-completed session
-    let lastResumeAt = 0;
-    const RESUME_COOLDOWN_MS = 10_000;
+const dbCommand = program.command('db').description('Inspect, migrate and prune the local session database.');
 
-    async function safeRestartTimerIfNeeded() {
-      const now = Date.now();
-      if (now - lastResumeAt < RESUME_COOLDOWN_MS) return;
+dbCommand
+  .command('status')
+  .description('Show where the database is, its schema version and any pending migrations.')
+  .action(() => {
+    const status = getSchemaStatus();
+    const backups = getBackups();
 
-      // Small delay lets services settle after wake/activity
-      await sleep(800);
+    console.log(`${chalk.bold('Database:')} ${status.path}`);
+    console.log(`${chalk.bold('Schema version:')} ${status.version} of ${status.latestVersion}`);
+    if (status.version > status.latestVersion) {
+      console.log(chalk.red('The database was migrated by a newer version of Clocktopus. Please update.'));
+    } else if (status.pending.length === 0) {
+      console.log(chalk.green('Up to date.'));
+    } else {
+      console.log(chalk.yellow(`${status.pending.length} pending migration(s), applied on the next command:`));
+      for (const migration of status.pending) {
+        console.log(`   - ${migration.version} ${migration.name}`);
+      }
+    }
+    console.log(`${chalk.bold('Backups:')} ${backups.length} in ${getBackupDir()}`);
+    if (backups.length > 0) {
+      console.log(chalk.gray(`   Latest: ${path.basename(backups[backups.length - 1])}`));
+    }
+  });
 
-      const latestSession = getLatestSession();
-      if (!latestSession) return;
+dbCommand
+  .command('migrate')
+  .description('Back up the database and apply any pending migrations.')
+  .action(() => {
+    const { applied, backupPath } = migrateDatabase();
 
-      const activeEntry = await clockify.getActiveTimer(workspaceId, userId);
-      if (activeEntry) return;
+    if (applied.length === 0) {
+      console.log(chalk.green(`The database is up to date (schema version ${getSchemaStatus().version}).`));
+      return;
+    }
 
-      const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
-      const completedAt = latestSession.completedAt ? new Date(latestSession.completedAt).getTime() : 0;
+    if (backupPath) {
+      console.log(chalk.gray(`Backed up the database to ${backupPath}.`));
+    }
+    for (const migration of applied) {
+      console.log(chalk.green(`Applied migration ${migration.version} (${migration.name}).`));
+    }
+  });
 
-      const eligible = latestSession.isAutoCompleted && completedAt > twoHoursAgo && !!latestSession.projectId;
+dbCommand
+  .command('prune')
+  .description('Delete old completed sessions from the local database. Clockify is not changed.')
+  .option('-b, --before <date>', 'Delete sessions that started before this day (YYYY-MM-DD)')
+  .option('-o, --older-than <days>', 'Delete sessions that started more than this many days ago')
+  .option('-p, --project <project>', 'Only delete sessions of this Clockify project ID or name')
+  .option('--dry-run', 'Only show what would be deleted')
+  .option('-y, --yes', 'Delete without asking for confirmation')
+  .action(async (options) => {
+    if (!options.before === !options.olderThan) {
+      console.log(chalk.red('Please pass either --before <date> or --older-than <days>.'));
+      process.exit(1);
+    }
 
-      if (!eligible) return;
+    let before = new Date(NaN);
+    if (options.before) {
+      before = new Date(`${options.before}T00:00:00`);
+    } else if (/^\d+$/.test(options.olderThan)) {
+      before = currentTime();
+      before.setDate(before.getDate() - Number(options.olderThan));
+    }
+    if (isNaN(before.getTime())) {
+      console.log(chalk.red('Please provide a date in YYYY-MM-DD format or a whole number of days.'));
+      process.exit(1);
+    }
 
-      await clockify.startTimer(workspaceId, latestSession.projectId, latestSession.description);
-      console.log(chalk.green('Timer restarted for the last used project.'));
-      lastResumeAt = Date.now();
+    const workspaceId = getKnownWorkspaceId();
+    if (!workspaceId) {
+      console.log(chalk.yellow('No sessions have been recorded yet.'));
+      return;
     }
 
-    console.log(chalk.blue('Monitoring display events (Unified Log) and idle time...'));
+    let projectId: string | undefined;
+    if (options.project) {
+      const projects = [
+        ...(await getLocalProjects(workspaceId)),
+        ...(await unlessOffline(clockify.getProjects(workspaceId), [])),
+      ];
+      // Sessions can belong to projects that were since archived or deleted, so unknown IDs are used as given.
+      projectId = findProject(projects, options.project)?.id ?? options.project;
+    }
 
-    let isLocked = false;
-    let pollInterval: NodeJS.Timeout | null = null;
+    const filter = { workspaceId, before: before.toISOString(), projectId };
+    const sessions = getSessionsToPrune(filter);
+    if (sessions.length === 0) {
+      console.log(chalk.yellow(`No completed sessions started before ${before.toLocaleString()}.`));
+      return;
+    }
 
-    console.log(chalk.blue('Monitoring display/lock state (macos-notification-state) and idle time...'));
+    const projectNames = await getProjectNames(
+      workspaceId,
+      sessions.map((session) => session.projectId),
+    );
+    const counts = new Map<string, number>();
+    for (const session of sessions) {
+      counts.set(session.projectId, (counts.get(session.projectId) ?? 0) + 1);
+    }
 
-    try {
-      if (process.platform === 'darwin') {
-        const nsModule = await import('macos-notification-state');
-        const getSessionState = nsModule.default?.getSessionState || nsModule.getSessionState;
+    console.log(`${sessions.length} completed session(s) started before ${before.toLocaleString()}:`);
+    for (const [id, count] of counts) {
+      console.log(`   - ${chalk.bold(projectNames.get(id) ?? id)}: ${count}`);
+    }
 
-        if (!getSessionState) {
-          throw new Error('getSessionState not found in module');
-        }
+    if (options.dryRun) {
+      return;
+    }
 
-        pollInterval = setInterval(async () => {
-          try {
-            const state = getSessionState();
-            const locked = state === 'SESSION_SCREEN_IS_LOCKED';
-
-            if (locked && !isLocked) {
-              isLocked = true;
-              await stopTimerAndLog('Screen is locked/off. Stopping timer...');
-            } else if (!locked && isLocked) {
-              console.log(chalk.green('Screen is unlocked/on. Attempting to restart timer...'));
-              await safeRestartTimerIfNeeded();
-              isLocked = false;
-            }
-          } catch (error) {
-            console.error('Error polling session state:', error);
-          }
-        }, 3000);
-      } else {
-        console.log(chalk.yellow('Display monitoring (lock state) is only supported on macOS. Skipping.'));
+    if (!options.yes) {
+      if (!process.stdin.isTTY) {
+        console.log(chalk.red('Pass --yes to delete sessions without a prompt.'));
+        process.exit(1);
+      }
+      const { confirmed } = await inquirer.prompt([
+        { type: 'confirm', name: 'confirmed', message: 'Delete these sessions?', default: false },
+      ]);
+      if (!confirmed) {
+        return;
       }
-    } catch (err) {
-      console.error(chalk.red('Failed to load macos-notification-state. Display monitoring will be disabled.'));
-      console.error(err);
     }
 
-    const IDLE_THRESHOLD_SECONDS = 300; // 5 minutes
-    let lastIdle = false;
+    const deleted = pruneSessions(filter);
+    console.log(chalk.green(`Deleted ${deleted} session(s).`));
+  });
 
-    const idleInterval = setInterval(async () => {
-      try {
-        const idleModule = await import('desktop-idle');
-        const idleTime = idleModule.default.getIdleTime();
+program
+  .command('monitor')
+  .description('Monitor system idle time and screen state, and stop the Clockify timer if idle or screen is off.')
+  .action(async () => {
+    const { workspaceId, userId } = await getWorkspaceAndUser();
 
-        if (idleTime >= IDLE_THRESHOLD_SECONDS) {
-          const stopped = await stopTimerAndLog(`System idle for ${Math.floor(idleTime)} seconds. Stopping timer...`);
-          if (stopped) lastIdle = true;
-        } else {
-          // User active again → resume even if display log events were missed
-          if (lastIdle) {
-            await safeRestartTimerIfNeeded();
-          }
-          lastIdle = false;
-        }
-      } catch (e) {
-        // swallow; desktop-idle can occasionally throw on wake races
-      }
-    }, 5000);
+    let stopMonitor: () => void;
+    try {
+      stopMonitor = await startMonitor({
+        clockify,
+        workspaceId,
+        userId,
+        findProject: async (query) => findProject(await getSelectableProjects(workspaceId), query),
+        onTimerChange: () => void refreshStatusState(),
+      });
+    } catch (err) {
+      console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+      process.exit(1);
+    }
 
     function cleanupAndExit(code = 0) {
-      try {
-        clearInterval(idleInterval);
-      } catch {}
-      try {
-        if (pollInterval) clearInterval(pollInterval);
-      } catch {}
+      stopMonitor();
       process.exit(code);
     }
 
@@ -312,4 +1910,67 @@ program
     process.on('SIGTERM', () => cleanupAndExit(0));
   });
 
-program.parse(process.argv);
+program.hook('preAction', async (thisCommand, actionCommand) => {
+  // Status formats other than text only read the status file, and `db status` only reads
+  // the database. `login` needs the store unlocked too, to save into it.
+  const readsLocalFiles =
+    actionCommand.name() === 'status' && (actionCommand.parent !== program || actionCommand.opts().format !== 'text');
+  if (readsLocalFiles || !isStoreLocked()) {
+    return;
+  }
+
+  if (!process.stdin.isTTY) {
+    console.log(chalk.red('Your credentials are protected by a passphrase. Set CLOCKTOPUS_PASSPHRASE to unlock them.'));
+    process.exit(1);
+  }
+
+  await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      mask: '*',
+      message: 'Passphrase for your credentials:',
+      validate: (value: string) => {
+        try {
+          unlockStore(value);
+          return true;
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+      },
+    },
+  ]);
+});
+
+program.hook('postAction', async (thisCommand, actionCommand) => {
+  // `status` only reads the file; the monitor keeps it fresh itself.
+  if (!['status', 'monitor'].includes(actionCommand.name())) {
+    await refreshStatusState();
+  }
+});
+
+/**
+ * Reports an error no command handled and exits with a code that says what went wrong.
+ */
+function exitWithError(error: unknown): never {
+  if (error instanceof HttpError) {
+    console.log(chalk.red(error.message));
+    if (error.hint) {
+      console.log(chalk.gray(error.hint));
+    }
+    process.exit(error.exitCode);
+  }
+  if (error instanceof CredentialStoreError) {
+    console.log(chalk.red(error.message));
+    process.exit(EXIT_CODES.auth);
+  }
+  if (error instanceof SchemaVersionError || error instanceof ClockifyResponseError) {
+    console.log(chalk.red(error.message));
+    process.exit(EXIT_CODES.error);
+  }
+
+  console.error(error);
+  process.exit(EXIT_CODES.error);
+}
+
+program.parseAsync(process.argv).catch(exitWithError);
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { loadJsonConfig } from './config-file.js';
+import { OVERLAP_POLICIES } from './calendar-overlap.js';
+
+export const RESPONSE_STATUSES = ['accepted', 'tentative', 'needsAction', 'declined'] as const;
+
+const CalendarConfigSchema = z.object({
+  // Calendar IDs to log events from; `clock calendar calendars` lists them.
+  calendars: z.array(z.string().min(1)).min(1).default(['primary']),
+  // Events are only logged when your answer to the invitation is one of these.
+  responseStatuses: z.array(z.enum(RESPONSE_STATUSES)).default(['accepted', 'tentative', 'needsAction']),
+  // Log events that show you as "free" instead of "busy".
+  logFreeEvents: z.boolean().default(false),
+  // What to do when an event overlaps an entry already in Clockify.
+  overlap: z.enum(OVERLAP_POLICIES).default('skip'),
+});
+
+export type CalendarConfig = z.infer<typeof CalendarConfigSchema>;
+
+export const DEFAULT_CALENDAR_CONFIG: CalendarConfig = CalendarConfigSchema.parse({});
+
+export function loadCalendarConfig(configPath: string): CalendarConfig {
+  return loadJsonConfig(CalendarConfigSchema, configPath, 'calendar');
+}
@@ -0,0 +1,84 @@
+import { ClockifyTimeEntry, TimeEntryChanges } from '../clockify.js';
+import { formatTimeOfDay } from './time.js';
+
+export const OVERLAP_POLICIES = ['skip', 'split', 'trim'] as const;
+
+export type OverlapPolicy = (typeof OVERLAP_POLICIES)[number];
+
+/**
+ * A change to an existing entry that makes room for an event. `tail` is the part of the
+ * entry after the event, logged as a new entry when the entry is split.
+ */
+export interface OverlapFix {
+  entry: ClockifyTimeEntry;
+  changes: TimeEntryChanges;
+  tail?: { start: string; end: string };
+}
+
+export type OverlapPlan = { fixes: OverlapFix[] } | { skipReason: string };
+
+function describeEntry(entry: ClockifyTimeEntry) {
+  const { start, end } = entry.timeInterval;
+  return `"${entry.description || 'no description'}" (${formatTimeOfDay(start)}-${end ? formatTimeOfDay(end) : 'now'})`;
+}
+
+/**
+ * Works out how to log an event from `start` to `end` next to the existing Clockify
+ * entries. `skip` leaves overlapped events out; `trim` shortens the other entry so it
+ * stops where the event starts (or starts where it ends); `split` does the same but
+ * keeps the part after the event as a separate entry.
+ *
+ * The event is skipped whatever the policy when it overlaps the running timer, an entry
+ * that was itself logged from the calendar (`calendarEntryIds`), or an entry it would
+ * swallow completely, since changing those would lose time the user tracked.
+ */
+export function planOverlap(
+  entries: ClockifyTimeEntry[],
+  calendarEntryIds: Set<string>,
+  start: string,
+  end: string,
+  policy: OverlapPolicy,
+): OverlapPlan {
+  const eventStart = new Date(start).getTime();
+  const eventEnd = new Date(end).getTime();
+  const fixes: OverlapFix[] = [];
+
+  for (const entry of entries) {
+    const entryStart = new Date(entry.timeInterval.start).getTime();
+    const entryEnd = entry.timeInterval.end ? new Date(entry.timeInterval.end).getTime() : Infinity;
+    if (entryStart >= eventEnd || entryEnd <= eventStart) {
+      continue;
+    }
+
+    if (!entry.timeInterval.end) {
+      return { skipReason: `it overlaps the running timer ${describeEntry(entry)}` };
+    }
+    if (policy === 'skip') {
+      return { skipReason: `it overlaps ${describeEntry(entry)}` };
+    }
+    if (calendarEntryIds.has(entry.id)) {
+      return { skipReason: `it overlaps ${describeEntry(entry)}, which was logged from the calendar` };
+    }
+
+    const startsBefore = entryStart < eventStart;
+    const endsAfter = entryEnd > eventEnd;
+    if (startsBefore && endsAfter && policy === 'split') {
+      if (!entry.projectId) {
+        return { skipReason: `${describeEntry(entry)} has no project to split it in` };
+      }
+      fixes.push({
+        entry,
+        changes: { end: new Date(eventStart).toISOString() },
+        tail: { start: new Date(eventEnd).toISOString(), end: entry.timeInterval.end },
+      });
+    } else if (startsBefore) {
+      fixes.push({ entry, changes: { end: new Date(eventStart).toISOString() } });
+    } else if (endsAfter) {
+      fixes.push({ entry, changes: { start: new Date(eventEnd).toISOString() } });
+    } else {
+      return { skipReason: `it would swallow ${describeEntry(entry)}` };
+    }
+  }
+
+  return { fixes };
+}
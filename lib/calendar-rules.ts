@@ -0,0 +1,112 @@
+import { calendar_v3 } from 'googleapis';
+import { EventRule } from './db.js';
+
+// Google Calendar's event colors; rules store the ID, which is what the API returns.
+export const EVENT_COLORS: Record<string, string> = {
+  lavender: '1',
+  sage: '2',
+  grape: '3',
+  flamingo: '4',
+  banana: '5',
+  tangerine: '6',
+  peacock: '7',
+  graphite: '8',
+  blueberry: '9',
+  basil: '10',
+  tomato: '11',
+};
+
+export function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A title pattern that only matches `title` itself, e.g. for "Sprint 42 Review (1:1)".
+ */
+export function literalTitlePattern(title: string) {
+  return `^${title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`;
+}
+
+/**
+ * Turns a color name (`tomato`) or ID (`11`) into the color ID, or null when it's neither.
+ */
+export function resolveColorId(color: string): string | null {
+  const query = color.toLowerCase();
+  if (EVENT_COLORS[query]) {
+    return EVENT_COLORS[query];
+  }
+  return Object.values(EVENT_COLORS).includes(query) ? query : null;
+}
+
+function getEmailDomain(email: string) {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+/**
+ * Whether every condition a rule sets holds for `event`. Title and organizer are
+ * case-insensitive regular expressions; the organizer one is tried on the email and
+ * the display name.
+ */
+export function matchesRule(rule: EventRule, event: calendar_v3.Schema$Event, calendarId: string): boolean {
+  if (rule.title !== null && !new RegExp(rule.title, 'i').test(event.summary ?? '')) {
+    return false;
+  }
+
+  if (rule.organizer !== null) {
+    const organizer = new RegExp(rule.organizer, 'i');
+    const candidates = [event.organizer?.email, event.organizer?.displayName].filter(Boolean) as string[];
+    if (!candidates.some((candidate) => organizer.test(candidate))) {
+      return false;
+    }
+  }
+
+  if (rule.attendeeDomain !== null) {
+    const domain = rule.attendeeDomain.replace(/^@/, '').toLowerCase();
+    const attendees = event.attendees ?? [];
+    if (!attendees.some((attendee) => attendee.email && getEmailDomain(attendee.email) === domain)) {
+      return false;
+    }
+  }
+
+  if (rule.calendarId !== null && rule.calendarId !== calendarId) {
+    return false;
+  }
+
+  if (rule.colorId !== null && rule.colorId !== event.colorId) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * The first rule, in priority order, that matches `event`.
+ */
+export function findMatchingRule(
+  rules: EventRule[],
+  event: calendar_v3.Schema$Event,
+  calendarId: string,
+): EventRule | undefined {
+  return rules.find((rule) => matchesRule(rule, event, calendarId));
+}
+
+/**
+ * The rule's conditions in one line, e.g. `title ~ /^Sprint \d+ Review$/, color tomato`.
+ */
+export function describeRuleConditions(rule: EventRule): string {
+  const colorName = Object.keys(EVENT_COLORS).find((name) => EVENT_COLORS[name] === rule.colorId);
+  const conditions = [
+    rule.title !== null && `title ~ /${rule.title}/`,
+    rule.organizer !== null && `organizer ~ /${rule.organizer}/`,
+    rule.attendeeDomain !== null && `attendee @${rule.attendeeDomain.replace(/^@/, '')}`,
+    rule.calendarId !== null && `calendar ${rule.calendarId}`,
+    rule.colorId !== null && `color ${colorName ?? rule.colorId}`,
+  ].filter(Boolean);
+
+  return conditions.length > 0 ? conditions.join(', ') : 'every event';
+}
@@ -0,0 +1,469 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { calendar_v3 } from 'googleapis';
+import { Clockify } from '../clockify.js';
+import {
+  addEventRule,
+  CalendarEntry,
+  deleteCalendarEntry,
+  getCalendarEntriesBetween,
+  getCalendarEntry,
+  getCalendarEntryIds,
+  getEventRules,
+  getOutboxOperation,
+  saveCalendarEntry,
+} from './db.js';
+import { describeRuleConditions, findMatchingRule, isValidPattern, literalTitlePattern } from './calendar-rules.js';
+import { OverlapFix, OverlapPolicy, planOverlap } from './calendar-overlap.js';
+import { NamedItem, TimeEntryDetails } from './entry-details.js';
+import { formatTimeOfDay } from './time.js';
+
+export interface CalendarLogContext {
+  clockify: Clockify;
+  calendar: calendar_v3.Calendar;
+  workspaceId: string;
+  userId: string;
+  // Offered when an event matches no rule.
+  projects: NamedItem[];
+  // Task, tags and billable flag for entries logged to a project.
+  getDetails: (projectId: string) => Promise<TimeEntryDetails>;
+}
+
+export interface CalendarLogOptions {
+  timeMin: string;
+  timeMax: string;
+  calendars: string[];
+  responseStatuses: string[];
+  logFreeEvents: boolean;
+  overlap: OverlapPolicy;
+  // Log every event to this project instead of following the rules.
+  projectId?: string;
+  dryRun?: boolean;
+  // Without prompts, events no rule maps and entries of cancelled events are left for
+  // an interactive run, and only changes are reported.
+  interactive: boolean;
+  // Leave events that end after this for a later run.
+  endedBefore?: string;
+}
+
+export interface CalendarLogResult {
+  // Events found in the calendars, including skipped ones.
+  events: number;
+  logged: number;
+}
+
+/**
+ * Stands in for the ID of an entry still waiting in the outbox, so later events see the
+ * time it takes up and treat it as logged from the calendar.
+ */
+function queuedEntryId(outboxOperationId: number) {
+  return `queued-${outboxOperationId}`;
+}
+
+/**
+ * Why an event you don't attend, by your answer to the invitation or because it shows
+ * you as free, shouldn't be logged. Null when it should.
+ */
+function getExclusionReason(
+  event: calendar_v3.Schema$Event,
+  responseStatuses: string[],
+  logFreeEvents: boolean,
+): string | null {
+  // Events without attendees are your own, so they count as accepted.
+  const response = event.attendees?.find((attendee) => attendee.self)?.responseStatus ?? 'accepted';
+  if (!responseStatuses.includes(response)) {
+    return `your response is "${response}"`;
+  }
+  if (!logFreeEvents && event.transparency === 'transparent') {
+    return 'it shows you as free';
+  }
+  return null;
+}
+
+/**
+ * Fetches a single event, or null when it no longer exists.
+ */
+async function getEvent(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  eventId: string,
+): Promise<calendar_v3.Schema$Event | null> {
+  try {
+    const res = await calendar.events.get({ calendarId, eventId });
+    return res.data;
+  } catch (error: unknown) {
+    const status = (error as { response?: { status?: number } }).response?.status;
+    if (status === 404 || status === 410) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function promptForRulePattern(title: string): Promise<string> {
+  const { pattern } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'pattern',
+      message: 'Use this choice for event titles matching (regular expression):',
+      default: literalTitlePattern(title),
+      validate: (value: string) => isValidPattern(value) || 'Not a valid regular expression.',
+    },
+  ]);
+
+  return pattern;
+}
+
+/**
+ * Logs the timed events of the given calendars to Clockify. Events logged on an earlier
+ * run are never logged twice: their entries follow the event when it moves, and you're
+ * offered to delete them when it is cancelled or no longer qualifies. Throws when the
+ * Google Calendar API fails.
+ */
+export async function logCalendarEvents(
+  context: CalendarLogContext,
+  options: CalendarLogOptions,
+): Promise<CalendarLogResult> {
+  const { clockify, calendar, workspaceId, userId, projects, getDetails } = context;
+  const { timeMin, timeMax, dryRun, interactive } = options;
+  const result: CalendarLogResult = { events: 0, logged: 0 };
+
+  // Skips and entries left alone are only worth reporting when someone is watching.
+  const note = (message: string) => {
+    if (interactive) console.log(message);
+  };
+
+  let eventRules = getEventRules(workspaceId);
+
+  // Events are checked against what is already in Clockify, including a timer still running from before.
+  const clockifyEntries = await clockify.getTimeEntries(workspaceId, userId, timeMin, timeMax);
+  const activeTimer = await clockify.getActiveTimer(workspaceId, userId);
+  if (activeTimer && !clockifyEntries.some((entry) => entry.id === activeTimer.id)) {
+    clockifyEntries.push(activeTimer);
+  }
+  const calendarEntryIds = getCalendarEntryIds(workspaceId);
+
+  /**
+   * The record of an event logged on an earlier run, with the Clockify entry ID filled
+   * in once a queued entry has been sent. A log Clockify rejected is forgotten so the
+   * event is logged again.
+   */
+  const getLoggedEvent = (calendarId: string, eventId: string): CalendarEntry | null => {
+    const logged = getCalendarEntry(workspaceId, calendarId, eventId);
+    if (!logged || logged.entryId || logged.outboxOperationId === null) {
+      return logged;
+    }
+
+    const operation = getOutboxOperation(logged.outboxOperationId);
+    if (operation?.status === 'failed') {
+      if (!dryRun) deleteCalendarEntry(workspaceId, calendarId, eventId);
+      return null;
+    }
+    if (operation?.status === 'done' && operation.response) {
+      const entryId: string = JSON.parse(operation.response).id;
+      if (!dryRun) saveCalendarEntry({ ...logged, entryId, outboxOperationId: null });
+      return { ...logged, entryId, outboxOperationId: null };
+    }
+    return logged;
+  };
+
+  const updateMovedEvent = async (logged: CalendarEntry, start: string, end: string) => {
+    const startedAt = new Date(start).toISOString();
+    const endedAt = new Date(end).toISOString();
+    if (logged.startedAt === startedAt && logged.endedAt === endedAt) {
+      note(`Already logged "${logged.description}".`);
+      return;
+    }
+
+    const times = `${formatTimeOfDay(startedAt)}-${formatTimeOfDay(endedAt)}`;
+    if (!logged.entryId) {
+      note(`"${logged.description}" moved to ${times}, but its entry is still queued. Run again once it synced.`);
+      return;
+    }
+    if (dryRun) {
+      console.log(`Would move the entry for "${logged.description}" to ${times}.`);
+      return;
+    }
+
+    const entry = await clockify.getTimeEntry(workspaceId, logged.entryId);
+    if (!entry) {
+      console.error(`Could not find the Clockify entry for "${logged.description}"; leaving it as it is.`);
+      return;
+    }
+
+    console.log(`Moving the entry for "${logged.description}" to ${times}...`);
+    if (await clockify.updateTimeEntry(workspaceId, entry, { start: startedAt, end: endedAt })) {
+      saveCalendarEntry({ ...logged, startedAt, endedAt });
+    }
+  };
+
+  /**
+   * Offers to delete the entry of a logged event that shouldn't have been logged after
+   * all; `reason` completes a sentence such as `"Standup" (09:00) was cancelled.`
+   */
+  const removeLoggedEvent = async (logged: CalendarEntry, reason: string) => {
+    if (!logged.entryId) {
+      note(`"${logged.description}" ${reason}, but its entry is still queued. Run again once it synced.`);
+      return;
+    }
+    if (dryRun) {
+      console.log(`Would offer to delete the entry for "${logged.description}", which ${reason}.`);
+      return;
+    }
+    if (!interactive) {
+      return;
+    }
+
+    const { remove } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'remove',
+        message: `"${logged.description}" (${formatTimeOfDay(logged.startedAt)}) ${reason}. Delete its Clockify entry?`,
+        default: true,
+      },
+    ]);
+
+    if (remove && !(await clockify.deleteTimeEntry(workspaceId, logged.entryId))) {
+      return;
+    }
+    // Kept entries are forgotten too, so the question isn't asked again.
+    deleteCalendarEntry(workspaceId, logged.calendarId, logged.eventId);
+  };
+
+  /**
+   * Trims or splits the entries an event overlaps to make room for it. Returns false when
+   * Clockify rejected a change, so the event is not logged on top of the entry. The local
+   * copies of the entries are changed in dry runs too, so later events see the plan.
+   */
+  const makeRoom = async (summary: string, fixes: OverlapFix[]): Promise<boolean> => {
+    for (const { entry, changes, tail } of fixes) {
+      const newStart = changes.start ?? entry.timeInterval.start;
+      const newEnd = changes.end ?? entry.timeInterval.end!;
+      const range = `${formatTimeOfDay(newStart)}-${formatTimeOfDay(newEnd)}`;
+      const tailRange = tail && `${formatTimeOfDay(tail.start)}-${formatTimeOfDay(tail.end)}`;
+      const description = `"${entry.description}" to ${range}${tail ? ` and ${tailRange}` : ''}`;
+
+      if (dryRun) {
+        console.log(`Would ${tail ? 'split' : 'trim'} ${description} to make room for "${summary}".`);
+      } else {
+        console.log(`${tail ? 'Splitting' : 'Trimming'} ${description}...`);
+        if (!(await clockify.updateTimeEntry(workspaceId, entry, changes))) {
+          return false;
+        }
+      }
+      entry.timeInterval = { start: newStart, end: newEnd };
+
+      if (tail) {
+        const tailEntry = dryRun
+          ? { id: `${entry.id}-tail` }
+          : await clockify.logTime(workspaceId, entry.projectId, tail.start, tail.end, entry.description, {
+              taskId: entry.taskId ?? undefined,
+              tagIds: entry.tagIds ?? undefined,
+              billable: entry.billable,
+            });
+        if (!tailEntry) {
+          return false;
+        }
+        const tailId = 'queued' in tailEntry ? queuedEntryId(tailEntry.outboxOperationId) : tailEntry.id;
+        clockifyEntries.push({ ...entry, id: tailId, timeInterval: { start: tail.start, end: tail.end } });
+      }
+    }
+
+    return true;
+  };
+
+  const logEventsFromCalendar = async (calendarId: string) => {
+    const res = await calendar.events.list({
+      calendarId,
+      timeMin: timeMin,
+      timeMax: timeMax,
+      singleEvents: true,
+      orderBy: 'startTime',
+      // Cancelled events are listed too, so entries logged for them can be removed.
+      showDeleted: true,
+    });
+
+    const events = res.data.items ?? [];
+    const listedEventIds = new Set<string>();
+    result.events += events.length;
+    if (interactive && options.calendars.length > 1) {
+      console.log(chalk.bold(`Calendar ${calendarId}:`));
+    }
+
+    for (const event of events) {
+      if (!event.id) {
+        continue;
+      }
+      listedEventIds.add(event.id);
+      const logged = getLoggedEvent(calendarId, event.id);
+
+      if (event.status === 'cancelled') {
+        if (logged) await removeLoggedEvent(logged, 'was cancelled');
+        continue;
+      }
+      if (event.start && event.start.date) {
+        note(`Skipping all-day event: "${event.summary}" on ${event.start.date}`);
+        continue;
+      }
+      if (!(event.summary && event.start && event.start.dateTime && event.end && event.end.dateTime)) {
+        continue;
+      }
+      if (options.endedBefore && new Date(event.end.dateTime) > new Date(options.endedBefore)) {
+        continue;
+      }
+
+      const exclusionReason = getExclusionReason(event, options.responseStatuses, options.logFreeEvents);
+      if (exclusionReason) {
+        if (logged) {
+          await removeLoggedEvent(logged, `is no longer logged because ${exclusionReason}`);
+        } else {
+          note(`Skipping "${event.summary}": ${exclusionReason}.`);
+        }
+        continue;
+      }
+
+      if (logged) {
+        await updateMovedEvent(logged, event.start.dateTime, event.end.dateTime);
+        continue;
+      }
+
+      let eventProjectId: string | null | undefined = options.projectId;
+      if (!eventProjectId) {
+        const rule = findMatchingRule(eventRules, event, calendarId);
+        if (rule && !rule.projectId) {
+          note(`Skipping "${event.summary}" (rule #${rule.id}: ${describeRuleConditions(rule)}).`);
+          continue;
+        }
+        eventProjectId = rule?.projectId;
+      }
+
+      // Checked before asking for a project, so there's no question for an event that isn't logged.
+      const overlapPlan = planOverlap(
+        clockifyEntries,
+        calendarEntryIds,
+        event.start.dateTime,
+        event.end.dateTime,
+        options.overlap,
+      );
+      if ('skipReason' in overlapPlan) {
+        note(`Skipping "${event.summary}": ${overlapPlan.skipReason}.`);
+        continue;
+      }
+
+      if (!eventProjectId && dryRun) {
+        console.log(`Would ask for the project of "${event.summary}".`);
+        continue;
+      }
+      if (!eventProjectId && !interactive) {
+        continue;
+      }
+
+      if (!eventProjectId) {
+        const { selectedProjectId } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'selectedProjectId',
+            message: `Which project for event "${event.summary}"?`,
+            choices: [
+              { name: chalk.yellow('Skip'), value: null },
+              ...projects.map((p) => ({ name: p.name, value: p.id })),
+            ],
+          },
+        ]);
+        eventProjectId = selectedProjectId;
+        const title = await promptForRulePattern(event.summary);
+        addEventRule({
+          workspaceId,
+          priority: 0,
+          title,
+          organizer: null,
+          attendeeDomain: null,
+          calendarId: null,
+          colorId: null,
+          projectId: eventProjectId ?? null,
+        });
+        eventRules = getEventRules(workspaceId);
+      }
+
+      if (!eventProjectId) {
+        continue;
+      }
+
+      if (!(await makeRoom(event.summary, overlapPlan.fixes))) {
+        continue;
+      }
+
+      const times = `${formatTimeOfDay(event.start.dateTime)}-${formatTimeOfDay(event.end.dateTime)}`;
+      if (dryRun) {
+        const project = projects.find((p) => p.id === eventProjectId);
+        console.log(`Would log "${event.summary}" (${times}) to ${project?.name ?? eventProjectId}.`);
+        clockifyEntries.push({
+          id: `dry-run-${event.id}`,
+          description: event.summary,
+          projectId: eventProjectId,
+          timeInterval: { start: event.start.dateTime, end: event.end.dateTime },
+        });
+        calendarEntryIds.add(`dry-run-${event.id}`);
+        continue;
+      }
+
+      const details = await getDetails(eventProjectId);
+      console.log(`Logging "${event.summary}" (${times}) to Clockify...`);
+      const entry = await clockify.logTime(
+        workspaceId,
+        eventProjectId,
+        event.start.dateTime,
+        event.end.dateTime,
+        event.summary,
+        details,
+      );
+
+      if (entry) {
+        result.logged++;
+        const entryId = 'queued' in entry ? queuedEntryId(entry.outboxOperationId) : entry.id;
+        clockifyEntries.push({
+          ...entry,
+          id: entryId,
+          timeInterval: { start: event.start.dateTime, end: event.end.dateTime },
+        });
+        calendarEntryIds.add(entryId);
+        saveCalendarEntry({
+          workspaceId,
+          calendarId,
+          eventId: event.id,
+          recurringEventId: event.recurringEventId ?? null,
+          originalStartTime: event.originalStartTime?.dateTime ?? null,
+          entryId: 'queued' in entry ? null : entry.id,
+          outboxOperationId: 'queued' in entry ? entry.outboxOperationId : null,
+          description: event.summary,
+          startedAt: new Date(event.start.dateTime).toISOString(),
+          endedAt: new Date(event.end.dateTime).toISOString(),
+        });
+      }
+    }
+
+    // Logged events that are no longer listed were moved out of the range or deleted for good.
+    for (const entry of getCalendarEntriesBetween(workspaceId, calendarId, timeMin, timeMax)) {
+      if (listedEventIds.has(entry.eventId)) {
+        continue;
+      }
+      const logged = getLoggedEvent(calendarId, entry.eventId);
+      if (!logged) {
+        continue;
+      }
+
+      const event = await getEvent(calendar, calendarId, logged.eventId);
+      if (!event || event.status === 'cancelled') {
+        await removeLoggedEvent(logged, 'was cancelled');
+      } else if (event.start?.dateTime && event.end?.dateTime) {
+        await updateMovedEvent(logged, event.start.dateTime, event.end.dateTime);
+      }
+    }
+  };
+
+  for (const calendarId of options.calendars) {
+    await logEventsFromCalendar(calendarId);
+  }
+
+  return result;
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { formatZodIssues } from './config-file.js';
+
+// Only the fields Clocktopus reads are listed; anything else Clockify sends is dropped.
+
+export const UserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullish(),
+  defaultWorkspace: z.string(),
+  activeWorkspace: z.string().nullish(),
+});
+
+export const WorkspaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const ProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  billable: z.boolean().optional(),
+  archived: z.boolean().optional(),
+});
+
+export const TaskSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  projectId: z.string().optional(),
+});
+
+export const TagSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const TimeEntrySchema = z.object({
+  id: z.string(),
+  // Clockify leaves out or nulls the description of entries created without one.
+  description: z
+    .string()
+    .nullish()
+    .transform((description) => description ?? ''),
+  projectId: z.string().nullable(),
+  taskId: z.string().nullish(),
+  tagIds: z.array(z.string()).nullish(),
+  billable: z.boolean().optional(),
+  timeInterval: z.object({
+    start: z.string(),
+    // Null while the timer is running.
+    end: z.string().nullable(),
+  }),
+});
+
+export type ClockifyUser = z.infer<typeof UserSchema>;
+export type ClockifyWorkspace = z.infer<typeof WorkspaceSchema>;
+export type ClockifyProject = z.infer<typeof ProjectSchema>;
+export type ClockifyTask = z.infer<typeof TaskSchema>;
+export type ClockifyTag = z.infer<typeof TagSchema>;
+export type ClockifyTimeEntry = z.infer<typeof TimeEntrySchema>;
+
+/**
+ * A Clockify response that doesn't match its schema. The request itself went through, so
+ * this is not an HttpError.
+ */
+export class ClockifyResponseError extends Error {}
+
+/**
+ * Checks a response against its schema. Throws a ClockifyResponseError listing every mismatch,
+ * so a change on Clockify's side fails where it happens instead of deep inside a command.
+ */
+export function parseClockifyResponse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, request: string) {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ClockifyResponseError(
+      `Clockify sent an unexpected response to ${request}:\n  ${formatZodIssues(result.error)}`,
+    );
+  }
+
+  return result.data;
+}
@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+
+/**
+ * Lists every problem zod found, one per line, e.g. `apiPort: Expected number, received string`.
+ */
+export function formatZodIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('\n  ');
+}
+
+/**
+ * Reads and validates a JSON config file. A missing file means the schema's defaults; a
+ * file that isn't valid JSON or doesn't match the schema throws, naming the file.
+ */
+export function loadJsonConfig<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, configPath: string, label: string): T {
+  if (!fs.existsSync(configPath)) {
+    return schema.parse({});
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid ${label} config in ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid ${label} config in ${configPath}:\n  ${formatZodIssues(result.error)}`);
+  }
+
+  return result.data;
+}
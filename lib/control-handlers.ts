@@ -0,0 +1,110 @@
+import { ControlError, ControlHandlers, MonitorEventBus, TimerTarget } from './control-server.js';
+import { countPendingOutboxOperations, getOpenSession, getTemplates } from './db.js';
+import { unlessOffline } from './http-errors.js';
+import { findTemplates } from './templates.js';
+import { stopAndRecord, switchTimer, TimerContext } from './timer.js';
+
+export interface ControlContext extends TimerContext {
+  // Finds a project the user can pick from by ID or name.
+  findProject(query: string): Promise<{ id: string; name: string } | undefined>;
+  // The monitor's view of the user, reported by `/status`.
+  getPresence(): { locked: boolean; idle: boolean };
+}
+
+/**
+ * The project, description and ticket a `/start` or `/switch` request asks for. A template
+ * fills in whatever the request leaves out.
+ */
+async function resolveTarget(context: ControlContext, target: TimerTarget) {
+  if (target.template) {
+    const matches = findTemplates(getTemplates(), target.template);
+    if (matches.length !== 1) {
+      throw new ControlError(
+        matches.length === 0 ? 404 : 409,
+        matches.length === 0
+          ? `No template matches "${target.template}".`
+          : `"${target.template}" matches several templates: ${matches.map((t) => t.name).join(', ')}.`,
+      );
+    }
+    const [template] = matches;
+    return {
+      projectId: template.projectId,
+      description: target.description ?? template.description ?? undefined,
+      jiraTicket: target.jiraTicket ?? template.jiraTicket ?? undefined,
+    };
+  }
+
+  if (!target.projectId) {
+    throw new ControlError(400, 'Provide a projectId or a template.');
+  }
+
+  const project = await context.findProject(target.projectId);
+  if (!project) {
+    throw new ControlError(404, `No project matches "${target.projectId}".`);
+  }
+
+  return { projectId: project.id, description: target.description, jiraTicket: target.jiraTicket };
+}
+
+/**
+ * What the control API does for each route, publishing timer changes to `events`.
+ */
+export function createControlHandlers(context: ControlContext, events: MonitorEventBus): ControlHandlers {
+  const { clockify, workspaceId, userId } = context;
+
+  return {
+    async status() {
+      const activeEntry = await clockify.getActiveTimer(workspaceId, userId);
+      return {
+        running: !!activeEntry,
+        entry: activeEntry
+          ? {
+              description: activeEntry.description,
+              projectId: activeEntry.projectId,
+              start: activeEntry.timeInterval.start,
+            }
+          : null,
+        session: getOpenSession(workspaceId),
+        monitor: context.getPresence(),
+        pendingChanges: countPendingOutboxOperations(),
+      };
+    },
+    async start(target) {
+      const { projectId, description, jiraTicket } = await resolveTarget(context, target);
+      const activeEntry = await unlessOffline(clockify.getActiveTimer(workspaceId, userId), null);
+      if (activeEntry || getOpenSession(workspaceId)) {
+        throw new ControlError(409, 'A timer is already running. Use /switch instead.');
+      }
+
+      const entry = await clockify.startTimer(workspaceId, projectId, description, jiraTicket);
+      if (!entry) {
+        throw new ControlError(502, 'Clockify rejected the new time entry.');
+      }
+
+      events.publish('timer-started', { projectId, description: entry.description });
+      return entry;
+    },
+    async stop() {
+      if (!(await stopAndRecord(context))) {
+        throw new ControlError(409, 'No timer was running.');
+      }
+
+      events.publish('timer-stopped', { auto: false });
+      return { stopped: true };
+    },
+    async switch(target) {
+      const { projectId, description, jiraTicket } = await resolveTarget(context, target);
+      const switched = await switchTimer(context, projectId, description, jiraTicket);
+      if (!switched) {
+        throw new ControlError(409, 'Could not stop the running timer, so no new timer was started.');
+      }
+      if (!switched.entry) {
+        throw new ControlError(502, 'The previous timer was stopped, but Clockify rejected the new time entry.');
+      }
+
+      events.publish('timer-stopped', { auto: false });
+      events.publish('timer-started', { projectId, description: switched.entry.description });
+      return switched.entry;
+    },
+  };
+}
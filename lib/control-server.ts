@@ -0,0 +1,159 @@
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import { z } from 'zod';
+import { formatZodIssues } from './config-file.js';
+import { HttpError, OfflineError, RateLimitError } from './http-errors.js';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+const TimerTargetSchema = z.object({
+  projectId: z.string().optional(),
+  template: z.string().optional(),
+  description: z.string().optional(),
+  jiraTicket: z.string().optional(),
+});
+
+export type TimerTarget = z.infer<typeof TimerTargetSchema>;
+
+export interface ControlHandlers {
+  status(): Promise<unknown>;
+  start(target: TimerTarget): Promise<unknown>;
+  stop(): Promise<unknown>;
+  switch(target: TimerTarget): Promise<unknown>;
+}
+
+export interface MonitorEvent {
+  type: string;
+  at: string;
+  [key: string]: unknown;
+}
+
+/**
+ * An error with the HTTP status the control API should answer with.
+ */
+export class ControlError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ControlError';
+  }
+}
+
+/**
+ * Emits monitor events for the `/events` stream. Listeners receive each event as one argument.
+ */
+export class MonitorEventBus extends EventEmitter {
+  publish(type: string, data: Record<string, unknown> = {}) {
+    this.emit('event', { type, at: new Date().toISOString(), ...data } satisfies MonitorEvent);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<TimerTarget> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new ControlError(413, 'Request body is too large.'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      let raw: unknown;
+      try {
+        raw = body ? JSON.parse(body) : {};
+      } catch {
+        return reject(new ControlError(400, 'Request body must be valid JSON.'));
+      }
+
+      const result = TimerTargetSchema.safeParse(raw);
+      if (!result.success) {
+        return reject(new ControlError(400, `Invalid request body:\n  ${formatZodIssues(result.error)}`));
+      }
+      resolve(result.data);
+    });
+    req.on('error', reject);
+  });
+}
+
+function streamEvents(req: http.IncomingMessage, res: http.ServerResponse, events: MonitorEventBus) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const listener = (event: MonitorEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  events.on('event', listener);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    events.off('event', listener);
+  });
+}
+
+/**
+ * A small JSON API for driving the monitor daemon from editors, launchers and status bars:
+ *
+ * - `GET /status`: the running timer and the monitor's lock/idle state
+ * - `POST /start`, `POST /switch`: body `{ projectId | template, description?, jiraTicket? }`
+ * - `POST /stop`
+ * - `GET /events`: server-sent events for idle, lock and timer transitions
+ *
+ * It only listens on localhost or a Unix socket. Requests carrying an `Origin` header are
+ * refused and writes must be sent as JSON, so web pages can't drive it from a browser.
+ */
+export function createControlServer(handlers: ControlHandlers, events: MonitorEventBus): http.Server {
+  return http.createServer(async (req, res) => {
+    const route = `${req.method} ${new URL(req.url ?? '/', 'http://localhost').pathname}`;
+
+    try {
+      if (req.headers.origin) {
+        throw new ControlError(403, 'Cross-origin requests are not allowed.');
+      }
+
+      if (req.method === 'POST' && !req.headers['content-type']?.startsWith('application/json')) {
+        throw new ControlError(415, 'POST requests must use Content-Type: application/json.');
+      }
+
+      switch (route) {
+        case 'GET /status':
+          return sendJson(res, 200, await handlers.status());
+        case 'POST /start':
+          return sendJson(res, 200, await handlers.start(await readJsonBody(req)));
+        case 'POST /stop':
+          return sendJson(res, 200, await handlers.stop());
+        case 'POST /switch':
+          return sendJson(res, 200, await handlers.switch(await readJsonBody(req)));
+        case 'GET /events':
+          return streamEvents(req, res, events);
+        default:
+          throw new ControlError(404, `No route for ${route}.`);
+      }
+    } catch (error: unknown) {
+      if (error instanceof ControlError) {
+        return sendJson(res, error.status, { error: error.message });
+      }
+      if (error instanceof HttpError) {
+        // Clockify or Jira failed; tell the caller whether trying again later can help.
+        const status = error instanceof RateLimitError ? 429 : error instanceof OfflineError ? 503 : 502;
+        return sendJson(res, status, { error: error.message, hint: error.hint });
+      }
+
+      console.error('[control] Error handling request:', error);
+      return sendJson(res, 500, { error: error instanceof Error ? error.message : 'An unknown error occurred.' });
+    }
+  });
+}
@@ -0,0 +1,287 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { formatZodIssues } from './config-file.js';
+import { DATA_DIR } from './paths.js';
+
+export const CREDENTIALS_PATH = path.join(DATA_DIR, 'credentials.json');
+export const CREDENTIALS_KEY_PATH = path.join(DATA_DIR, 'credentials.key');
+
+// Unlocks a passphrase-protected store without a prompt, e.g. for the monitor under pm2.
+const PASSPHRASE_ENV = 'CLOCKTOPUS_PASSPHRASE';
+
+/**
+ * Settings shown and changed by `clock config`. An environment variable of the same
+ * meaning (e.g. from `.env`) takes precedence over the stored value.
+ */
+export const CONFIG_KEYS = {
+  'clockify.apiKey': { env: 'CLOCKIFY_API_KEY', secret: true, description: 'Clockify API key' },
+  'clockify.baseUrl': {
+    env: 'CLOCKIFY_BASE_URL',
+    secret: false,
+    description: 'Clockify API URL',
+    default: 'https://api.clockify.me/api/v1',
+  },
+  'jira.url': { env: 'ATLASSIAN_URL', secret: false, description: 'Jira API URL, ending in /rest/api/3' },
+  'jira.email': { env: 'ATLASSIAN_EMAIL', secret: false, description: 'Atlassian account email' },
+  'jira.apiToken': { env: 'ATLASSIAN_API_TOKEN', secret: true, description: 'Atlassian API token' },
+  'google.clientId': { env: 'GOOGLE_CLIENT_ID', secret: false, description: 'Google OAuth client ID' },
+  'google.clientSecret': { env: 'GOOGLE_CLIENT_SECRET', secret: true, description: 'Google OAuth client secret' },
+  'google.apiUrl': {
+    env: 'GOOGLE_API_URL',
+    secret: false,
+    description: 'Google APIs URL',
+    default: 'https://www.googleapis.com/',
+  },
+} satisfies Record<string, { env: string; secret: boolean; description: string; default?: string }>;
+
+export type ConfigKey = keyof typeof CONFIG_KEYS;
+
+export type ConfigSource = 'env' | 'store' | 'default';
+
+export type StoreProtection = 'key-file' | 'passphrase';
+
+// Values that aren't settings, such as the Google OAuth token, live next to them under their own keys.
+type StoreData = Record<string, unknown>;
+
+const StoreFileSchema = z.object({
+  version: z.literal(1),
+  protection: z.enum(['key-file', 'passphrase']),
+  // Only for passphrase protection: the scrypt salt the key is derived with.
+  salt: z.string().optional(),
+  iv: z.string(),
+  tag: z.string(),
+  data: z.string(),
+});
+
+type StoreFile = z.infer<typeof StoreFileSchema>;
+
+export class CredentialStoreError extends Error {}
+
+let storeKey: Buffer | null = null;
+let storeData: StoreData | null = null;
+
+function readStoreFile(): StoreFile | null {
+  if (!fs.existsSync(CREDENTIALS_PATH)) {
+    return null;
+  }
+
+  const damaged = (problem: string) =>
+    new CredentialStoreError(
+      `${CREDENTIALS_PATH} is damaged (${problem}). Delete it and run \`clock login\` to store your credentials again.`,
+    );
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(CREDENTIALS_PATH, 'utf8'));
+  } catch (error) {
+    throw damaged(error instanceof Error ? error.message : String(error));
+  }
+
+  const result = StoreFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw damaged(formatZodIssues(result.error).replace(/\n  /g, '; '));
+  }
+
+  return result.data;
+}
+
+function deriveKey(passphrase: string, salt: string) {
+  return crypto.scryptSync(passphrase, Buffer.from(salt, 'base64'), 32);
+}
+
+function readKeyFile() {
+  if (!fs.existsSync(CREDENTIALS_KEY_PATH)) {
+    throw new CredentialStoreError(
+      `The key for ${CREDENTIALS_PATH} is missing (${CREDENTIALS_KEY_PATH}). Run \`clock login\` to store your credentials again.`,
+    );
+  }
+
+  return Buffer.from(fs.readFileSync(CREDENTIALS_KEY_PATH, 'utf8').trim(), 'base64');
+}
+
+function decrypt(file: StoreFile, key: Buffer): StoreData {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  try {
+    const json = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    return JSON.parse(json.toString('utf8'));
+  } catch {
+    throw new CredentialStoreError(
+      file.protection === 'passphrase' ? 'Wrong passphrase.' : `Could not decrypt ${CREDENTIALS_PATH}.`,
+    );
+  }
+}
+
+function writeStoreFile(file: Omit<StoreFile, 'iv' | 'tag' | 'data'>, key: Buffer, data: StoreData) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+  const contents: StoreFile = {
+    ...file,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: encrypted.toString('base64'),
+  };
+
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  // Written next to the store and renamed over it, so a crash never leaves half a file.
+  const tempPath = `${CREDENTIALS_PATH}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(contents, null, 2), { encoding: 'utf8', mode: 0o600 });
+  fs.renameSync(tempPath, CREDENTIALS_PATH);
+}
+
+/**
+ * How the store is protected, or null when nothing has been stored yet.
+ */
+export function getStoreProtection(): StoreProtection | null {
+  return readStoreFile()?.protection ?? null;
+}
+
+/**
+ * Whether reading the store needs a passphrase that hasn't been given yet.
+ */
+export function isStoreLocked(): boolean {
+  return !storeData && getStoreProtection() === 'passphrase' && !process.env[PASSPHRASE_ENV];
+}
+
+/**
+ * Decrypts a passphrase-protected store for the rest of the process. Throws when the
+ * passphrase is wrong.
+ */
+export function unlockStore(passphrase: string) {
+  const file = readStoreFile();
+  if (!file || file.protection !== 'passphrase' || !file.salt) {
+    return;
+  }
+
+  const key = deriveKey(passphrase, file.salt);
+  storeData = decrypt(file, key);
+  storeKey = key;
+}
+
+function loadStore(): StoreData {
+  if (storeData) {
+    return storeData;
+  }
+
+  const file = readStoreFile();
+  if (!file) {
+    return {};
+  }
+
+  if (file.protection === 'passphrase') {
+    const passphrase = process.env[PASSPHRASE_ENV];
+    if (!passphrase) {
+      throw new CredentialStoreError(
+        `Your credentials are protected by a passphrase. Set ${PASSPHRASE_ENV} to use them without a prompt.`,
+      );
+    }
+    unlockStore(passphrase);
+    return storeData!;
+  }
+
+  storeKey = readKeyFile();
+  storeData = decrypt(file, storeKey);
+  return storeData;
+}
+
+/**
+ * Creates an empty store, protected by a key file next to it or by a passphrase.
+ * Replaces any existing store.
+ */
+function createStore(protection: StoreProtection, passphrase?: string) {
+  if (protection === 'passphrase') {
+    if (!passphrase) {
+      throw new CredentialStoreError('A passphrase is required.');
+    }
+    const salt = crypto.randomBytes(16).toString('base64');
+    storeKey = deriveKey(passphrase, salt);
+    storeData = {};
+    writeStoreFile({ version: 1, protection, salt }, storeKey, storeData);
+    return;
+  }
+
+  storeKey = crypto.randomBytes(32);
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  fs.writeFileSync(CREDENTIALS_KEY_PATH, storeKey.toString('base64'), { encoding: 'utf8', mode: 0o600 });
+  storeData = {};
+  writeStoreFile({ version: 1, protection }, storeKey, storeData);
+}
+
+function saveStore(changes: StoreData) {
+  const data = { ...loadStore(), ...changes };
+  if (!storeKey) {
+    // Nothing stored yet: a key file keeps the store usable without a prompt.
+    createStore('key-file');
+  }
+
+  const { protection, salt } = readStoreFile()!;
+  writeStoreFile({ version: 1, protection, salt }, storeKey!, data);
+  storeData = data;
+}
+
+/**
+ * Protects the store with a key file or a passphrase, creating it or re-encrypting
+ * what it holds. A key file that is no longer needed is deleted.
+ */
+export function protectStore(protection: StoreProtection, passphrase?: string) {
+  const data = loadStore();
+  createStore(protection, passphrase);
+  saveStore(data);
+  if (protection === 'passphrase') {
+    fs.rmSync(CREDENTIALS_KEY_PATH, { force: true });
+  }
+}
+
+function getStoredString(key: string): string | undefined {
+  const value = loadStore()[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Where a setting's value comes from, or null when it isn't set at all.
+ */
+export function getConfigSource(key: ConfigKey): ConfigSource | null {
+  const definition: { env: string; default?: string } = CONFIG_KEYS[key];
+  if (process.env[definition.env]) return 'env';
+  if (getStoredString(key)) return 'store';
+  if (definition.default) return 'default';
+  return null;
+}
+
+/**
+ * The value of a setting: its environment variable, then the store, then the default.
+ * Throws a CredentialStoreError when the store can't be read.
+ */
+export function getConfigValue(key: ConfigKey): string | undefined {
+  const definition: { env: string; default?: string } = CONFIG_KEYS[key];
+  return process.env[definition.env] || getStoredString(key) || definition.default;
+}
+
+export function setConfigValues(values: Partial<Record<ConfigKey, string>>) {
+  saveStore(values);
+}
+
+export function isConfigKey(key: string): key is ConfigKey {
+  return Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key);
+}
+
+/**
+ * Shows enough of a secret to tell which one is stored.
+ */
+export function maskSecret(value: string) {
+  return value.length <= 8 ? '********' : `********${value.slice(-4)}`;
+}
+
+export function getStoredValue<T>(key: string): T | null {
+  return (loadStore()[key] as T | undefined) ?? null;
+}
+
+/**
+ * Replaces a stored value other than a setting, such as the Google OAuth token.
+ */
+export function setStoredValue(key: string, value: unknown) {
+  saveStore({ [key]: value });
+}
@@ -2,13 +2,25 @@ import * as fs from 'fs';
 import * as path from 'path';
 import Database from 'better-sqlite3';
 import { z } from 'zod';
+import { TimeEntryDetails } from './entry-details.js';
+import {
+  applyMigrations,
+  getPendingMigrations,
+  getSchemaVersion,
+  LATEST_VERSION,
+  Migration,
+  SchemaVersionError,
+} from './migrations.js';
 
-const DB_DIR = path.join(process.cwd(), 'data/db');
-const DB_PATH = path.join(DB_DIR, 'sessions.db');
+// Points every command at another database, e.g. a throwaway one for the fake services.
+const DB_PATH_ENV = 'CLOCKTOPUS_DB_PATH';
+// The database has always lived under the working directory; `CLOCKTOPUS_DATA_DIR` moves it along with the rest.
+const DEFAULT_DB_PATH = path.join(
+  process.env.CLOCKTOPUS_DATA_DIR || path.join(process.cwd(), 'data'),
+  'db/sessions.db',
+);
 
-if (!fs.existsSync(DB_DIR)) {
-  fs.mkdirSync(DB_DIR, { recursive: true });
-}
+let dbPath = process.env[DB_PATH_ENV] || DEFAULT_DB_PATH;
 
 const SessionSchema = z.object({
   id: z.string(),
@@ -18,111 +30,633 @@ const SessionSchema = z.object({
   completedAt: z.string().nullable(),
   isAutoCompleted: z.number(),
   jiraTicket: z.string().nullable(),
+  // Null only for sessions recorded before workspaces were tracked, until they are adopted.
+  workspaceId: z.string().nullable(),
+  taskId: z.string().nullable(),
+  tagIds: z.string().transform((tagIds) => z.array(z.string()).parse(JSON.parse(tagIds))),
+  // 1 or 0 when set explicitly; null leaves it to the project's default.
+  billable: z.number().nullable(),
+  // The Jira worklog this session was booked on; resumed segments can share one.
+  jiraWorklogId: z.string().nullable(),
 });
 
+export type Session = z.infer<typeof SessionSchema>;
+
+const TemplateSchema = z.object({
+  name: z.string(),
+  projectId: z.string(),
+  description: z.string().nullable(),
+  jiraTicket: z.string().nullable(),
+  tags: z.string().transform((tags) => z.array(z.string()).parse(JSON.parse(tags))),
+  createdAt: z.string(),
+});
+
+export type Template = z.infer<typeof TemplateSchema>;
+
+const EventRuleSchema = z.object({
+  id: z.number(),
+  // Null only for rules migrated from before workspaces were tracked, until they are adopted.
+  workspaceId: z.string().nullable(),
+  priority: z.number(),
+  // Each condition is ignored when null; a rule with none matches every event.
+  title: z.string().nullable(),
+  organizer: z.string().nullable(),
+  attendeeDomain: z.string().nullable(),
+  calendarId: z.string().nullable(),
+  colorId: z.string().nullable(),
+  // Null skips matching events instead of logging them.
+  projectId: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type EventRule = z.infer<typeof EventRuleSchema>;
+
+const CalendarEntrySchema = z.object({
+  workspaceId: z.string(),
+  calendarId: z.string(),
+  // Each occurrence of a recurring event has its own ID; the series ID and the occurrence's
+  // original start identify it even after it is moved.
+  eventId: z.string(),
+  recurringEventId: z.string().nullable(),
+  originalStartTime: z.string().nullable(),
+  // Null while the time entry is still queued in the outbox.
+  entryId: z.string().nullable(),
+  outboxOperationId: z.number().nullable(),
+  description: z.string(),
+  startedAt: z.string(),
+  endedAt: z.string(),
+  loggedAt: z.string(),
+});
+
+export type CalendarEntry = z.infer<typeof CalendarEntrySchema>;
+
+const OutboxOperationSchema = z.object({
+  id: z.number(),
+  operation: z.string(),
+  method: z.string(),
+  url: z.string(),
+  body: z.string().nullable(),
+  status: z.enum(['pending', 'done', 'failed']),
+  attempts: z.number(),
+  nextAttemptAt: z.string(),
+  claimedAt: z.string().nullable(),
+  lastError: z.string().nullable(),
+  response: z.string().nullable(),
+  createdAt: z.string(),
+  completedAt: z.string().nullable(),
+});
+
+export type OutboxOperation = z.infer<typeof OutboxOperationSchema>;
+
+// A claim older than this is assumed to belong to a process that died mid-request.
+const OUTBOX_CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
 let dbInstance: Database.Database | null = null;
+let isMigrated = false;
 
-function getDb(): Database.Database {
+export function getDbPath() {
+  return dbPath;
+}
+
+/**
+ * Switches to the database at `newPath`, closing the one in use. It is created on first use.
+ */
+export function setDbPath(newPath: string) {
+  dbInstance?.close();
+  dbInstance = null;
+  isMigrated = false;
+  dbPath = newPath;
+}
+
+/**
+ * Backups are kept next to the database, so one moved with `CLOCKTOPUS_DB_PATH` keeps its own.
+ */
+export function getBackupDir() {
+  return path.join(path.dirname(dbPath), 'backups');
+}
+
+export function getBackups(): string[] {
+  const backupDir = getBackupDir();
+  if (!fs.existsSync(backupDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(backupDir)
+    .filter((name) => name.endsWith('.db'))
+    .sort()
+    .map((name) => path.join(backupDir, name));
+}
+
+/**
+ * Copies the database, as of schema `version`, into the backup folder. `VACUUM INTO`
+ * includes anything still in the WAL, so the copy is complete even while the monitor runs.
+ */
+function backupDatabase(db: Database.Database, version: number): string {
+  fs.mkdirSync(getBackupDir(), { recursive: true });
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.join(getBackupDir(), `${path.basename(dbPath, '.db')}-v${version}-${timestamp}.db`);
+  db.prepare('VACUUM INTO ?').run(backupPath);
+  return backupPath;
+}
+
+export interface MigrationResult {
+  applied: Migration[];
+  // Null when nothing had to be migrated or the database was new.
+  backupPath: string | null;
+}
+
+function migrate(db: Database.Database): MigrationResult {
+  const version = getSchemaVersion(db);
+  if (version > LATEST_VERSION) {
+    throw new SchemaVersionError(
+      `${dbPath} is at schema version ${version}, but this version of Clocktopus only knows up to ${LATEST_VERSION}. Please update Clocktopus.`,
+    );
+  }
+  if (getPendingMigrations(db).length === 0) {
+    return { applied: [], backupPath: null };
+  }
+
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM sqlite_master').get() as { count: number };
+  const backupPath = count > 0 ? backupDatabase(db, version) : null;
+
+  return { applied: applyMigrations(db), backupPath };
+}
+
+function openDb(): Database.Database {
   if (!dbInstance) {
-    dbInstance = new Database(DB_PATH);
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    dbInstance = new Database(dbPath);
     dbInstance.pragma('journal_mode = WAL');
-    dbInstance.exec(`
-      CREATE TABLE IF NOT EXISTS sessions (
-        id TEXT PRIMARY KEY,
-        projectId TEXT NOT NULL,
-        description TEXT NOT NULL,
-        startedAt TEXT NOT NULL,
-        completedAt TEXT,
-        isAutoCompleted INTEGER DEFAULT 0,
-        jiraTicket TEXT
-      )
-    `);
-    dbInstance.exec(`
-      CREATE TABLE IF NOT EXISTS google_tokens (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        token TEXT NOT NULL,
-        createdAt TEXT NOT NULL
-      )
-    `);
-    dbInstance.exec(`
-      CREATE TABLE IF NOT EXISTS event_projects (
-        eventName TEXT PRIMARY KEY,
-        projectId TEXT
-      )
-    `);
   }
 
   return dbInstance;
 }
 
-export function getEventProject(eventName: string): string | null | undefined {
+/**
+ * The database, brought up to the latest schema the first time it is used.
+ */
+function getDb(): Database.Database {
+  const db = openDb();
+  if (!isMigrated) {
+    migrate(db);
+    isMigrated = true;
+  }
+
+  return db;
+}
+
+/**
+ * Where the database is and which migrations it still needs, without applying them.
+ */
+export function getSchemaStatus() {
+  const db = openDb();
+  return {
+    path: dbPath,
+    version: getSchemaVersion(db),
+    latestVersion: LATEST_VERSION,
+    pending: getPendingMigrations(db),
+  };
+}
+
+export function migrateDatabase(): MigrationResult {
+  const result = migrate(openDb());
+  isMigrated = true;
+  return result;
+}
+
+/**
+ * The calendar rules of a workspace in the order they are tried: highest priority first,
+ * then oldest first.
+ */
+export function getEventRules(workspaceId: string): EventRule[] {
   const db = getDb();
-  const stmt = db.prepare('SELECT projectId FROM event_projects WHERE eventName = ?');
-  const row = stmt.get(eventName) as { projectId: string | null } | undefined;
+  const stmt = db.prepare('SELECT * FROM event_rules WHERE workspaceId = ? ORDER BY priority DESC, id ASC');
+  return z.array(EventRuleSchema).parse(stmt.all(workspaceId));
+}
 
-  return row ? row.projectId : undefined;
+export function addEventRule(rule: Omit<EventRule, 'id' | 'createdAt'>): number {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO event_rules (workspaceId, priority, title, organizer, attendeeDomain, calendarId, colorId, projectId, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(
+    rule.workspaceId,
+    rule.priority,
+    rule.title,
+    rule.organizer,
+    rule.attendeeDomain,
+    rule.calendarId,
+    rule.colorId,
+    rule.projectId,
+    new Date().toISOString(),
+  );
+
+  return Number(result.lastInsertRowid);
+}
+
+export function deleteEventRule(workspaceId: string, id: number): boolean {
+  const db = getDb();
+  const stmt = db.prepare('DELETE FROM event_rules WHERE workspaceId = ? AND id = ?');
+  return stmt.run(workspaceId, id).changes > 0;
 }
 
-export function setEventProject(eventName: string, projectId: string | null) {
+export function getCalendarEntry(workspaceId: string, calendarId: string, eventId: string): CalendarEntry | null {
   const db = getDb();
-  const stmt = db.prepare('INSERT OR REPLACE INTO event_projects (eventName, projectId) VALUES (?, ?)');
-  stmt.run(eventName, projectId);
+  const stmt = db.prepare('SELECT * FROM calendar_entries WHERE workspaceId = ? AND calendarId = ? AND eventId = ?');
+  const row = stmt.get(workspaceId, calendarId, eventId);
+  return row ? CalendarEntrySchema.parse(row) : null;
 }
 
-export function storeToken(token: object) {
+/**
+ * Calendar events logged from `calendarId` that started in [from, to).
+ */
+export function getCalendarEntriesBetween(
+  workspaceId: string,
+  calendarId: string,
+  from: string,
+  to: string,
+): CalendarEntry[] {
   const db = getDb();
-  const stmt = db.prepare('INSERT INTO google_tokens (token, createdAt) VALUES (?, ?)');
-  stmt.run(JSON.stringify(token), new Date().toISOString());
+  const stmt = db.prepare(`
+    SELECT * FROM calendar_entries
+    WHERE workspaceId = ? AND calendarId = ? AND startedAt >= ? AND startedAt < ?
+    ORDER BY startedAt ASC
+  `);
+
+  return z.array(CalendarEntrySchema).parse(stmt.all(workspaceId, calendarId, from, to));
+}
+
+/**
+ * The Clockify entries logged from calendar events in a workspace.
+ */
+export function getCalendarEntryIds(workspaceId: string): Set<string> {
+  const db = getDb();
+  const stmt = db.prepare('SELECT entryId FROM calendar_entries WHERE workspaceId = ? AND entryId IS NOT NULL');
+  return new Set((stmt.all(workspaceId) as { entryId: string }[]).map((row) => row.entryId));
+}
+
+export function saveCalendarEntry(entry: Omit<CalendarEntry, 'loggedAt'>) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO calendar_entries (
+      workspaceId, calendarId, eventId, recurringEventId, originalStartTime, entryId, outboxOperationId,
+      description, startedAt, endedAt, loggedAt
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    entry.workspaceId,
+    entry.calendarId,
+    entry.eventId,
+    entry.recurringEventId,
+    entry.originalStartTime,
+    entry.entryId,
+    entry.outboxOperationId,
+    entry.description,
+    entry.startedAt,
+    entry.endedAt,
+    new Date().toISOString(),
+  );
 }
 
-export function getLatestToken() {
+export function deleteCalendarEntry(workspaceId: string, calendarId: string, eventId: string) {
   const db = getDb();
-  const stmt = db.prepare('SELECT * FROM google_tokens ORDER BY createdAt DESC LIMIT 1');
-  const row = stmt.get() as { token: string } | undefined;
+  const stmt = db.prepare('DELETE FROM calendar_entries WHERE workspaceId = ? AND calendarId = ? AND eventId = ?');
+  stmt.run(workspaceId, calendarId, eventId);
+}
+
+/**
+ * Assigns sessions and calendar rules recorded before workspaces were tracked to
+ * `workspaceId` (the account's default workspace, which is the one they were made in).
+ */
+export function adoptUnscopedRows(workspaceId: string) {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare('UPDATE sessions SET workspaceId = ? WHERE workspaceId IS NULL').run(workspaceId);
+    db.prepare('UPDATE event_rules SET workspaceId = ? WHERE workspaceId IS NULL').run(workspaceId);
+  })();
+}
+
+/**
+ * Removes the Google tokens stored in plaintext before the credential store existed,
+ * returning the latest so it can be moved there.
+ */
+export function takeLegacyGoogleToken() {
+  const db = getDb();
+  const row = db.prepare('SELECT token FROM google_tokens ORDER BY createdAt DESC LIMIT 1').get() as
+    | { token: string }
+    | undefined;
+  db.prepare('DELETE FROM google_tokens').run();
   return row ? JSON.parse(row.token) : null;
 }
 
 export function logSessionStart(
   id: string,
+  workspaceId: string,
   projectId: string,
   description: string,
   startedAt: string,
   jiraTicket?: string,
+  details: TimeEntryDetails = {},
 ) {
   const db = getDb();
-  const stmt = db.prepare(
-    'INSERT INTO sessions (id, projectId, description, startedAt, isAutoCompleted, jiraTicket) VALUES (?, ?, ?, ?, ?, ?)',
-  );
+  const stmt = db.prepare(`
+    INSERT INTO sessions (id, workspaceId, projectId, description, startedAt, isAutoCompleted, jiraTicket, taskId, tagIds, billable)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
 
-  stmt.run(id, projectId, description, startedAt, 0, jiraTicket);
+  stmt.run(
+    id,
+    workspaceId,
+    projectId,
+    description,
+    startedAt,
+    0,
+    jiraTicket,
+    details.taskId ?? null,
+    JSON.stringify(details.tagIds ?? []),
+    details.billable === undefined ? null : details.billable ? 1 : 0,
+  );
 }
 
-export function completeLatestSession(completedAt: string, isAutoCompleted = false) {
+export function completeLatestSession(workspaceId: string, completedAt: string, isAutoCompleted = false) {
   const db = getDb();
   const stmt = db.prepare(`
     UPDATE sessions
     SET completedAt = ?, isAutoCompleted = ?
     WHERE id = (
-      SELECT id FROM sessions WHERE completedAt IS NULL ORDER BY startedAt DESC LIMIT 1
+      SELECT id FROM sessions WHERE workspaceId = ? AND completedAt IS NULL ORDER BY startedAt DESC LIMIT 1
     )
   `);
 
-  stmt.run(completedAt, isAutoCompleted ? 1 : 0);
+  stmt.run(completedAt, isAutoCompleted ? 1 : 0, workspaceId);
+}
+
+export function getLatestSession(workspaceId: string): Session | null {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM sessions WHERE workspaceId = ? ORDER BY startedAt DESC LIMIT 1
+  `);
+  const row = stmt.get(workspaceId);
+  return row ? SessionSchema.parse(row) : null;
+}
+
+export function completeSession(id: string, completedAt: string | null, isAutoCompleted = false) {
+  const db = getDb();
+  const stmt = db.prepare('UPDATE sessions SET completedAt = ?, isAutoCompleted = ? WHERE id = ?');
+  stmt.run(completedAt, isAutoCompleted ? 1 : 0, id);
+}
+
+export function updateSession(
+  id: string,
+  changes: Partial<Pick<Session, 'projectId' | 'description' | 'startedAt' | 'completedAt' | 'jiraWorklogId'>>,
+) {
+  const columns = Object.keys(changes) as (keyof typeof changes)[];
+  if (columns.length === 0) {
+    return;
+  }
+
+  const db = getDb();
+  const stmt = db.prepare(`UPDATE sessions SET ${columns.map((column) => `${column} = ?`).join(', ')} WHERE id = ?`);
+  stmt.run(...columns.map((column) => changes[column]), id);
+}
+
+export function deleteSession(id: string) {
+  const db = getDb();
+  const stmt = db.prepare('DELETE FROM sessions WHERE id = ?');
+  stmt.run(id);
+}
+
+export function getOpenSession(workspaceId: string): Session | null {
+  const db = getDb();
+  const stmt = db.prepare(
+    'SELECT * FROM sessions WHERE workspaceId = ? AND completedAt IS NULL ORDER BY startedAt DESC LIMIT 1',
+  );
+  const row = stmt.get(workspaceId);
+  return row ? SessionSchema.parse(row) : null;
+}
+
+export function getSession(id: string): Session | null {
+  const db = getDb();
+  const stmt = db.prepare('SELECT * FROM sessions WHERE id = ?');
+  const row = stmt.get(id);
+  return row ? SessionSchema.parse(row) : null;
+}
+
+/**
+ * The session that started right before `session` in the same workspace.
+ */
+export function getPreviousSession(session: Session): Session | null {
+  const db = getDb();
+  const stmt = db.prepare(
+    'SELECT * FROM sessions WHERE workspaceId = ? AND startedAt < ? ORDER BY startedAt DESC LIMIT 1',
+  );
+  const row = stmt.get(session.workspaceId, session.startedAt);
+  return row ? SessionSchema.parse(row) : null;
+}
+
+export function getSessionsByWorklog(jiraWorklogId: string): Session[] {
+  const db = getDb();
+  const stmt = db.prepare('SELECT * FROM sessions WHERE jiraWorklogId = ? ORDER BY startedAt ASC');
+
+  return z.array(SessionSchema).parse(stmt.all(jiraWorklogId));
+}
+
+export function getSessionsBetween(workspaceId: string, from: string, to: string): Session[] {
+  const db = getDb();
+  const stmt = db.prepare(
+    'SELECT * FROM sessions WHERE workspaceId = ? AND startedAt >= ? AND startedAt < ? ORDER BY startedAt ASC',
+  );
+
+  return z.array(SessionSchema).parse(stmt.all(workspaceId, from, to));
+}
+
+/**
+ * Records idle time that was cut from the end of a session because the monitor
+ * back-dated the stop to when the user went idle.
+ */
+export function logIdleGap(sessionId: string, startedAt: string, detectedAt: string) {
+  const db = getDb();
+  const trimmedSeconds = Math.max(
+    0,
+    Math.round((new Date(detectedAt).getTime() - new Date(startedAt).getTime()) / 1000),
+  );
+  const stmt = db.prepare(
+    'INSERT INTO idle_gaps (sessionId, startedAt, detectedAt, trimmedSeconds) VALUES (?, ?, ?, ?)',
+  );
+  stmt.run(sessionId, startedAt, detectedAt, trimmedSeconds);
+}
+
+export function getTrimmedSecondsBySession(sessionIds: string[]): Map<string, number> {
+  const db = getDb();
+  const stmt = db.prepare('SELECT COALESCE(SUM(trimmedSeconds), 0) AS total FROM idle_gaps WHERE sessionId = ?');
+
+  return new Map(sessionIds.map((id) => [id, (stmt.get(id) as { total: number }).total]));
+}
+
+export interface PruneFilter {
+  workspaceId: string;
+  // Sessions that started before this instant.
+  before: string;
+  projectId?: string;
+}
+
+/**
+ * The completed sessions `pruneSessions` would delete, oldest first. Running sessions are never pruned.
+ */
+export function getSessionsToPrune(filter: PruneFilter): Session[] {
+  const db = getDb();
+  const stmt = db.prepare(`
+    SELECT * FROM sessions
+    WHERE workspaceId = ? AND startedAt < ? AND completedAt IS NOT NULL AND (? IS NULL OR projectId = ?)
+    ORDER BY startedAt ASC
+  `);
+  const projectId = filter.projectId ?? null;
+
+  return z.array(SessionSchema).parse(stmt.all(filter.workspaceId, filter.before, projectId, projectId));
 }
 
-export function getLatestSession() {
+/**
+ * Deletes the completed sessions matching `filter` along with their idle gaps. Returns how many were deleted.
+ */
+export function pruneSessions(filter: PruneFilter): number {
   const db = getDb();
+  const projectId = filter.projectId ?? null;
+
+  return db.transaction(() => {
+    const { changes } = db
+      .prepare(
+        `DELETE FROM sessions
+         WHERE workspaceId = ? AND startedAt < ? AND completedAt IS NOT NULL AND (? IS NULL OR projectId = ?)`,
+      )
+      .run(filter.workspaceId, filter.before, projectId, projectId);
+    db.prepare('DELETE FROM idle_gaps WHERE sessionId NOT IN (SELECT id FROM sessions)').run();
+    return changes;
+  })();
+}
+
+export function getSetting<T>(key: string): T | null {
+  const db = getDb();
+  const stmt = db.prepare('SELECT value FROM settings WHERE key = ?');
+  const row = stmt.get(key) as { value: string } | undefined;
+  return row ? (JSON.parse(row.value) as T) : null;
+}
+
+export function setSetting(key: string, value: unknown) {
+  const db = getDb();
+  const stmt = db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)');
+  stmt.run(key, JSON.stringify(value));
+}
+
+export function enqueueOutboxOperation(operation: string, method: string, url: string, body?: unknown): number {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const stmt = db.prepare(
+    'INSERT INTO outbox (operation, method, url, body, nextAttemptAt, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+  );
+  const result = stmt.run(operation, method, url, body === undefined ? null : JSON.stringify(body), now, now);
+
+  return Number(result.lastInsertRowid);
+}
+
+export function getOutboxOperation(id: number): OutboxOperation | null {
+  const db = getDb();
+  const stmt = db.prepare('SELECT * FROM outbox WHERE id = ?');
+  const row = stmt.get(id);
+  return row ? OutboxOperationSchema.parse(row) : null;
+}
+
+export function getNextOutboxOperation(): OutboxOperation | null {
+  const db = getDb();
+  const stmt = db.prepare("SELECT * FROM outbox WHERE status = 'pending' ORDER BY id ASC LIMIT 1");
+  const row = stmt.get();
+  return row ? OutboxOperationSchema.parse(row) : null;
+}
+
+export function getPendingOutboxOperations(): OutboxOperation[] {
+  const db = getDb();
+  const stmt = db.prepare("SELECT * FROM outbox WHERE status = 'pending' ORDER BY id ASC");
+  return stmt.all().map((row) => OutboxOperationSchema.parse(row));
+}
+
+export function countPendingOutboxOperations(): number {
+  const db = getDb();
+  const stmt = db.prepare("SELECT COUNT(*) AS count FROM outbox WHERE status = 'pending'");
+  return (stmt.get() as { count: number }).count;
+}
+
+/**
+ * Marks an operation as being sent by this process. Returns false when another
+ * process (e.g. the monitor daemon) already holds a fresh claim on it.
+ */
+export function claimOutboxOperation(id: number): boolean {
+  const db = getDb();
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - OUTBOX_CLAIM_TIMEOUT_MS).toISOString();
   const stmt = db.prepare(`
-    SELECT * FROM sessions ORDER BY startedAt DESC LIMIT 1
+    UPDATE outbox
+    SET claimedAt = ?
+    WHERE id = ? AND status = 'pending' AND (claimedAt IS NULL OR claimedAt < ?)
   `);
 
-  return SessionSchema.parse(stmt.get());
+  return stmt.run(now.toISOString(), id, staleBefore).changes === 1;
+}
+
+export function completeOutboxOperation(id: number, response: unknown) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE outbox
+    SET status = 'done', response = ?, completedAt = ?, claimedAt = NULL, lastError = NULL
+    WHERE id = ?
+  `);
+  stmt.run(JSON.stringify(response ?? null), new Date().toISOString(), id);
+}
+
+export function rescheduleOutboxOperation(id: number, nextAttemptAt: string, error: string) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE outbox
+    SET attempts = attempts + 1, nextAttemptAt = ?, lastError = ?, claimedAt = NULL
+    WHERE id = ?
+  `);
+  stmt.run(nextAttemptAt, error, id);
+}
+
+export function failOutboxOperation(id: number, error: string) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    UPDATE outbox
+    SET status = 'failed', attempts = attempts + 1, lastError = ?, completedAt = ?, claimedAt = NULL
+    WHERE id = ?
+  `);
+  stmt.run(error, new Date().toISOString(), id);
+}
+
+export function saveTemplate(template: Omit<Template, 'createdAt'>) {
+  const db = getDb();
+  const stmt = db.prepare(
+    'INSERT OR REPLACE INTO templates (name, projectId, description, jiraTicket, tags, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+  );
+  stmt.run(
+    template.name,
+    template.projectId,
+    template.description,
+    template.jiraTicket,
+    JSON.stringify(template.tags),
+    new Date().toISOString(),
+  );
+}
+
+export function getTemplates(): Template[] {
+  const db = getDb();
+  const stmt = db.prepare('SELECT * FROM templates ORDER BY name ASC');
+  return z.array(TemplateSchema).parse(stmt.all());
 }
 
-export function deleteOldSessions(days: number) {
+export function deleteTemplate(name: string): boolean {
   const db = getDb();
-  const date = new Date();
-  date.setDate(date.getDate() - days);
-  const stmt = db.prepare('DELETE FROM sessions WHERE startedAt < ?');
-  stmt.run(date.toISOString());
+  const stmt = db.prepare('DELETE FROM templates WHERE name = ?');
+  return stmt.run(name).changes > 0;
 }
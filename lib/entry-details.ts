@@ -0,0 +1,105 @@
+import inquirer from 'inquirer';
+
+export interface TimeEntryDetails {
+  taskId?: string;
+  tagIds?: string[];
+  billable?: boolean;
+}
+
+export interface NamedItem {
+  id: string;
+  name: string;
+}
+
+/**
+ * The `--task`, `--tag` and `--billable/--no-billable` options. `true` means the option
+ * was given without a value, so the user picks from a list.
+ */
+export interface EntryDetailOptions {
+  task?: string | true;
+  tag?: string[] | true;
+  billable?: boolean;
+}
+
+function findByIdOrName<T extends NamedItem>(items: T[], query: string): T | undefined {
+  return items.find((item) => item.id === query || item.name.toLowerCase() === query.toLowerCase());
+}
+
+async function pickTask(tasks: NamedItem[]): Promise<string | undefined> {
+  const { taskId } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'taskId',
+      message: 'Which task?',
+      choices: [{ name: 'No task', value: undefined }, ...tasks.map((t) => ({ name: t.name, value: t.id }))],
+    },
+  ]);
+
+  return taskId;
+}
+
+async function pickTags(tags: NamedItem[], selected: string[] = []): Promise<string[]> {
+  const { tagIds } = await inquirer.prompt([
+    {
+      type: 'checkbox',
+      name: 'tagIds',
+      message: 'Which tags?',
+      choices: tags.map((t) => ({ name: t.name, value: t.id, checked: selected.includes(t.id) })),
+    },
+  ]);
+
+  return tagIds;
+}
+
+/**
+ * Turns task and tag names (or IDs) into IDs, asking the user to pick when an option was
+ * given without a value. Tasks and tags are only fetched when needed. Throws when a
+ * name matches nothing.
+ */
+export async function resolveEntryDetails(
+  options: EntryDetailOptions,
+  fetchTasks: () => Promise<NamedItem[]>,
+  fetchTags: () => Promise<NamedItem[]>,
+): Promise<TimeEntryDetails> {
+  const details: TimeEntryDetails = {};
+
+  if (options.task) {
+    const tasks = await fetchTasks();
+    if (options.task === true) {
+      details.taskId = tasks.length > 0 ? await pickTask(tasks) : undefined;
+    } else {
+      const task = findByIdOrName(tasks, options.task);
+      if (!task) {
+        throw new Error(`No task matches "${options.task}" in this project.`);
+      }
+      details.taskId = task.id;
+    }
+  }
+
+  if (options.tag === true || (options.tag && options.tag.length > 0)) {
+    details.tagIds = await resolveTagIds(await fetchTags(), options.tag);
+  }
+
+  if (options.billable !== undefined) {
+    details.billable = options.billable;
+  }
+
+  return details;
+}
+
+/**
+ * Resolves tag names or IDs, or lets the user pick tags when `queries` is `true`.
+ */
+export async function resolveTagIds(tags: NamedItem[], queries: string[] | true): Promise<string[]> {
+  if (queries === true) {
+    return tags.length > 0 ? pickTags(tags) : [];
+  }
+
+  return queries.map((query) => {
+    const tag = findByIdOrName(tags, query);
+    if (!tag) {
+      throw new Error(`No tag matches "${query}" in this workspace.`);
+    }
+    return tag.id;
+  });
+}
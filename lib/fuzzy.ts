@@ -0,0 +1,32 @@
+function isSubsequence(query: string, value: string) {
+  let index = 0;
+  for (const char of value) {
+    if (char === query[index]) index++;
+    if (index === query.length) return true;
+  }
+  return query.length === 0;
+}
+
+/**
+ * Finds the items whose text matches a (possibly abbreviated) query. The strictest kind of
+ * match wins: exact, then prefix, then substring, then the letters in order ("stup" →
+ * "standup"). Returns every item at that level so callers can report ambiguity.
+ */
+export function findMatches<T>(items: T[], query: string, getText: (item: T) => string): T[] {
+  const needle = query.toLowerCase();
+  const matchers = [
+    (text: string) => text === needle,
+    (text: string) => text.startsWith(needle),
+    (text: string) => text.includes(needle),
+    (text: string) => isSubsequence(needle, text),
+  ];
+
+  for (const matches of matchers) {
+    const found = items.filter((item) => matches(getText(item).toLowerCase()));
+    if (found.length > 0) {
+      return found;
+    }
+  }
+
+  return [];
+}
@@ -0,0 +1,66 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, timeout: 5000 });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The branch checked out in `cwd`, or null outside a repository or on a detached HEAD.
+ */
+export async function getCurrentBranch(cwd = process.cwd()): Promise<string | null> {
+  const branch = await git(cwd, ['rev-parse', '--abbrev-ref', 'HEAD']);
+  return branch && branch !== 'HEAD' ? branch : null;
+}
+
+/**
+ * Extracts a Jira key from a branch name (`feature/abc-123-fix-login` → `ABC-123`).
+ * `pattern` is matched case-insensitively; its first capture group is used when it has one.
+ */
+export function findJiraKey(branch: string, pattern: string): string | null {
+  const match = branch.match(new RegExp(pattern, 'i'));
+  if (!match) {
+    return null;
+  }
+
+  return (match[1] ?? match[0]).toUpperCase();
+}
+
+/**
+ * Calls `onChange` with the new branch whenever another one is checked out in `repo`.
+ * Returns a function that stops watching, or null when `repo` isn't a git repository.
+ */
+export async function watchBranch(
+  repo: string,
+  onChange: (branch: string | null) => void,
+): Promise<(() => void) | null> {
+  const headPath = await git(repo, ['rev-parse', '--git-path', 'HEAD']);
+  if (!headPath) {
+    return null;
+  }
+
+  const absoluteHeadPath = path.resolve(repo, headPath);
+  let current = await getCurrentBranch(repo);
+
+  // Checkouts rewrite HEAD; watchFile polls, so it also notices editors and tools that replace it.
+  const listener = async (stats: fs.Stats, previous: fs.Stats) => {
+    if (stats.mtimeMs === previous.mtimeMs) return;
+    const branch = await getCurrentBranch(repo);
+    if (branch !== current) {
+      current = branch;
+      onChange(branch);
+    }
+  };
+
+  fs.watchFile(absoluteHeadPath, { interval: 2000 }, listener);
+  return () => fs.unwatchFile(absoluteHeadPath, listener);
+}
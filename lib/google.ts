@@ -1,20 +1,49 @@
-import * as dotenv from 'dotenv';
-dotenv.config();
-
-import { google } from 'googleapis';
+import * as http from 'http';
+import { calendar_v3, google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import { Credentials } from 'google-auth-library/build/src/auth/credentials.js';
+import { getConfigValue, getStoredValue, setStoredValue } from './credentials.js';
+import { takeLegacyGoogleToken } from './db.js';
+
+const TOKEN_KEY = 'google.token';
+const AUTH_PORT = 3005;
+const REDIRECT_URI = `http://localhost:${AUTH_PORT}/oauth2callback`;
 
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
-const REDIRECT_URI = 'http://localhost:3005/oauth2callback';
+const SCOPES = ['https://www.googleapis.com/auth/calendar.readonly'];
 
 export function getAuthenticatedClient(): OAuth2Client {
-  if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
-    throw new Error('GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET must be set in your .env file');
+  const clientId = getConfigValue('google.clientId');
+  const clientSecret = getConfigValue('google.clientSecret');
+  if (!clientId || !clientSecret) {
+    throw new Error('The Google client ID and secret are not set. Run `clock login google` or check your .env file.');
+  }
+
+  return new google.auth.OAuth2(clientId, clientSecret, REDIRECT_URI);
+}
+
+/**
+ * The stored OAuth token, moved out of the database first if it was kept there.
+ */
+export function getGoogleToken(): Credentials | null {
+  const token = getStoredValue<Credentials>(TOKEN_KEY);
+  if (token) {
+    return token;
   }
 
-  return new google.auth.OAuth2(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, REDIRECT_URI);
+  const legacyToken: Credentials | null = takeLegacyGoogleToken();
+  if (legacyToken) {
+    setStoredValue(TOKEN_KEY, legacyToken);
+  }
+  return legacyToken;
+}
+
+/**
+ * Replaces the stored token. Google leaves the refresh token out of refreshed tokens,
+ * so the previous one is kept.
+ */
+export function saveGoogleToken(token: Credentials) {
+  const previous = getStoredValue<Credentials>(TOKEN_KEY);
+  setStoredValue(TOKEN_KEY, { ...token, refresh_token: token.refresh_token ?? previous?.refresh_token });
 }
 
 export async function getRefreshedToken(token: Credentials) {
@@ -23,3 +52,73 @@ export async function getRefreshedToken(token: Credentials) {
   const refreshedToken = await oAuth2Client.refreshAccessToken();
   return refreshedToken.credentials;
 }
+
+/**
+ * Asks for access to your calendars in the browser through a local server, and stores
+ * the token once Google redirects back to it.
+ */
+export function runGoogleAuthFlow(): Promise<void> {
+  const oAuth2Client = getAuthenticatedClient();
+
+  return new Promise((resolve, reject) => {
+    const server = http.createServer(async (req, res) => {
+      if (req.url && req.url.startsWith('/oauth2callback')) {
+        const code = new URL(req.url, REDIRECT_URI).searchParams.get('code');
+        if (!code) {
+          res.end('Authentication was cancelled. You can close this window.');
+          server.close();
+          reject(new Error('Google did not return an authorization code.'));
+          return;
+        }
+        try {
+          const { tokens } = await oAuth2Client.getToken(code);
+          saveGoogleToken(tokens);
+          res.end('Authentication successful! You can close this window.');
+          resolve();
+        } catch (error) {
+          res.end('Authentication failed. You can close this window.');
+          reject(error);
+        }
+        server.close();
+      } else {
+        const authorizeUrl = oAuth2Client.generateAuthUrl({
+          access_type: 'offline',
+          scope: SCOPES,
+        });
+        res.writeHead(302, { Location: authorizeUrl });
+        res.end();
+      }
+    });
+
+    server.on('error', reject);
+    server.listen(AUTH_PORT, () => {
+      console.log(`Please visit http://localhost:${AUTH_PORT} to authorize the application.`);
+    });
+  });
+}
+
+/**
+ * A Calendar API client with the stored token, refreshed first when it expired. Null,
+ * with the reason logged, when you haven't authenticated yet.
+ */
+export async function getCalendarClient(): Promise<calendar_v3.Calendar | null> {
+  let token = getGoogleToken();
+  if (!token) {
+    console.error('Please authenticate with Google first: `clock calendar auth`.');
+    return null;
+  }
+
+  const oAuth2Client = getAuthenticatedClient();
+  oAuth2Client.setCredentials(token);
+
+  if (token.expiry_date && new Date(token.expiry_date) < new Date()) {
+    console.log('Token expired, refreshing...');
+    token = await getRefreshedToken(token);
+    saveGoogleToken(token);
+    oAuth2Client.setCredentials(token);
+  }
+  // Tokens the client refreshes by itself during a long run are kept too.
+  oAuth2Client.on('tokens', saveGoogleToken);
+
+  return google.calendar({ version: 'v3', auth: oAuth2Client, rootUrl: getConfigValue('google.apiUrl') });
+}
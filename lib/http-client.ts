@@ -1,17 +1,130 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig, isAxiosError } from 'axios';
 import clockifyConfig from '../config/clockify.js';
+import { getRetryAfterMs, toHttpError } from './http-errors.js';
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10_000;
+// Clockify allows 50 requests per second; staying well below leaves room for the monitor.
+const CLOCKIFY_REQUESTS_PER_SECOND = 10;
+
+// Connection failures that are usually over by the next attempt. A refused connection or
+// an unknown host means we're offline, where retrying would only delay queueing.
+const TRANSIENT_NETWORK_ERRORS = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE']);
+// Methods safe to send twice: a request that timed out may have been handled already.
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+
+export interface HttpClientOptions {
+  // Used in error messages, e.g. "Clockify rejected your credentials".
+  service: string;
+  baseURL?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number;
+  // Spaces requests out to stay under the service's rate limit.
+  requestsPerSecond?: number;
+}
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function shouldRetry(error: AxiosError): boolean {
+  const status = error.response?.status;
+  if (status === 429) {
+    // Rate-limited requests were not handled, so any method can be sent again.
+    return true;
+  }
+
+  const method = error.config?.method?.toLowerCase() ?? 'get';
+  if (!IDEMPOTENT_METHODS.has(method)) {
+    return false;
+  }
+
+  return status === undefined ? TRANSIENT_NETWORK_ERRORS.has(error.code ?? '') : status >= 500;
+}
+
+/**
+ * Exponential backoff with full jitter, or the delay the service asked for. Null when
+ * that is too long to wait for.
+ */
+function getRetryDelay(error: AxiosError, retryCount: number): number | null {
+  const retryAfterMs = getRetryAfterMs(error.response?.headers as Record<string, unknown> | undefined);
+  if (retryAfterMs !== null) {
+    return retryAfterMs <= MAX_RETRY_DELAY_MS ? retryAfterMs : null;
+  }
+
+  return Math.round(Math.random() * Math.min(BASE_RETRY_DELAY_MS * 2 ** retryCount, MAX_RETRY_DELAY_MS));
+}
+
+/**
+ * An axios instance with a timeout, retries for rate limiting and server errors, and
+ * typed errors (see http-errors.ts) once it gives up.
+ */
+export function createHttpClient(options: HttpClientOptions): AxiosInstance {
+  const client = axios.create({
+    baseURL: options.baseURL,
+    timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      ...options.headers,
+    },
+  });
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  // Requests wait for the next free slot; a 429 pushes every slot back.
+  const minIntervalMs = options.requestsPerSecond ? 1000 / options.requestsPerSecond : 0;
+  let nextSlotAt = 0;
+
+  client.interceptors.request.use(async (config) => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlotAt);
+    nextSlotAt = slot + minIntervalMs;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(undefined, async (error: unknown) => {
+    if (isAxiosError(error) && error.config && shouldRetry(error)) {
+      const config = error.config as RetryableRequestConfig;
+      const retryCount = config.retryCount ?? 0;
+      const delay = getRetryDelay(error, retryCount);
+      if (retryCount < retries && delay !== null) {
+        config.retryCount = retryCount + 1;
+        if (error.response?.status === 429) {
+          nextSlotAt = Math.max(nextSlotAt, Date.now() + delay);
+        } else {
+          await sleep(delay);
+        }
+        return client.request(config);
+      }
+    }
+
+    throw toHttpError(error, options.service);
+  });
+
+  return client;
+}
 
 export class HttpClient {
   private readonly client: AxiosInstance;
 
   constructor() {
-    this.client = axios.create({
-      baseURL: clockifyConfig.baseUrl,
-      headers: {
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-        'X-Api-Key': clockifyConfig.apiKey,
-      },
+    this.client = createHttpClient({ service: 'Clockify', requestsPerSecond: CLOCKIFY_REQUESTS_PER_SECOND });
+
+    // The credentials may be unlocked after the client is created.
+    this.client.interceptors.request.use((config) => {
+      config.baseURL = clockifyConfig.baseUrl;
+      config.headers.set('X-Api-Key', clockifyConfig.apiKey);
+      return config;
     });
   }
 
@@ -19,3 +132,22 @@ export class HttpClient {
     return this.client;
   }
 }
+
+/**
+ * Checks an API key before it is stored. Resolves to the account's name, or null when
+ * Clockify rejects the key.
+ */
+export async function verifyClockifyApiKey(baseUrl: string, apiKey: string): Promise<string | null> {
+  try {
+    const response = await createHttpClient({ service: 'Clockify', baseURL: baseUrl }).get('/user', {
+      headers: { 'X-Api-Key': apiKey },
+    });
+    return response.data.name ?? response.data.email ?? '';
+  } catch (error: unknown) {
+    if (error instanceof Error) {
+      console.error('Error verifying the Clockify API key:', error.message);
+    }
+
+    return null;
+  }
+}
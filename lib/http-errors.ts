@@ -0,0 +1,142 @@
+import { isAxiosError } from 'axios';
+
+// Process exit codes, so scripts can tell why a command failed.
+export const EXIT_CODES = {
+  error: 1,
+  auth: 3,
+  notFound: 4,
+  rateLimited: 5,
+  offline: 6,
+  server: 7,
+} as const;
+
+/**
+ * A request to Clockify or Jira that failed. `status` is null when no response arrived.
+ */
+export class HttpError extends Error {
+  readonly exitCode: number = EXIT_CODES.error;
+
+  constructor(
+    readonly service: string,
+    message: string,
+    readonly status: number | null = null,
+    readonly details?: string,
+  ) {
+    super(message);
+  }
+
+  // What the user can do about it.
+  get hint(): string | null {
+    return null;
+  }
+}
+
+export class AuthError extends HttpError {
+  readonly exitCode = EXIT_CODES.auth;
+
+  get hint() {
+    return `Check your ${this.service} credentials with \`clock login ${this.service.toLowerCase()}\`.`;
+  }
+}
+
+export class NotFoundError extends HttpError {
+  readonly exitCode = EXIT_CODES.notFound;
+}
+
+export class RateLimitError extends HttpError {
+  readonly exitCode = EXIT_CODES.rateLimited;
+
+  constructor(
+    service: string,
+    message: string,
+    // How long the service asked to wait, when it said.
+    readonly retryAfterMs: number | null,
+  ) {
+    super(service, message, 429);
+  }
+
+  get hint() {
+    const wait = this.retryAfterMs ? ` in ${Math.ceil(this.retryAfterMs / 1000)} seconds` : ' in a minute';
+    return `Try again${wait}.`;
+  }
+}
+
+export class OfflineError extends HttpError {
+  readonly exitCode = EXIT_CODES.offline;
+
+  get hint() {
+    return `Check your internet connection and the ${this.service} URL (\`clock config show\`).`;
+  }
+}
+
+export class ServerError extends HttpError {
+  readonly exitCode = EXIT_CODES.server;
+
+  get hint() {
+    return `${this.service} is having trouble; try again later.`;
+  }
+}
+
+/**
+ * The delay a 429 or 503 response asks for in its `Retry-After` header, in milliseconds.
+ */
+export function getRetryAfterMs(headers: Record<string, unknown> | undefined): number | null {
+  const value = headers?.['retry-after'];
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = new Date(String(value)).getTime();
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Turns an axios error into the matching HttpError. Anything else is returned as it is.
+ */
+export function toHttpError(error: unknown, service: string): unknown {
+  if (error instanceof HttpError || !isAxiosError(error)) {
+    return error;
+  }
+
+  const request = `${error.config?.method?.toUpperCase() ?? 'GET'} ${error.config?.url ?? ''}`.trim();
+  if (!error.response) {
+    return new OfflineError(service, `Could not reach ${service} (${request}): ${error.message}`);
+  }
+
+  const { status, data, headers } = error.response;
+  const details = typeof data === 'string' ? data : JSON.stringify(data);
+  if (status === 401 || status === 403) {
+    return new AuthError(service, `${service} rejected your credentials (HTTP ${status}).`, status, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(service, `${service} could not find ${request} (HTTP 404).`, status, details);
+  }
+  if (status === 429) {
+    return new RateLimitError(service, `${service} is rate limiting requests.`, getRetryAfterMs(headers));
+  }
+  if (status >= 500) {
+    return new ServerError(service, `${service} failed to handle ${request} (HTTP ${status}).`, status, details);
+  }
+
+  return new HttpError(service, `${service} rejected ${request} (HTTP ${status}): ${details}`, status, details);
+}
+
+/**
+ * Resolves to `fallback` when the service can't be reached right now, for callers that
+ * can carry on offline. Other errors are thrown.
+ */
+export async function unlessOffline<T>(request: Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await request;
+  } catch (error: unknown) {
+    if (error instanceof OfflineError || error instanceof ServerError) {
+      return fallback;
+    }
+    throw error;
+  }
+}
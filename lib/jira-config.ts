@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { loadJsonConfig } from './config-file.js';
+
+function isValidRegex(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const JiraConfigSchema = z.object({
+  // The issues offered by `clock jira` and `clock start --jira` without a ticket.
+  jql: z.string().min(1).default('assignee = currentUser() AND status = "In Progress" ORDER BY updated DESC'),
+  // Move the issue to `transitionTo` when a timer starts on it.
+  transitionOnStart: z.boolean().default(false),
+  transitionTo: z.string().min(1).default('In Progress'),
+  // Clockify project (ID or name) for each Jira project key, so no project prompt is needed.
+  projects: z.record(z.string(), z.string()).default({}),
+  // Finds the Jira key in a branch name; the first capture group is used when there is one.
+  branchPattern: z.string().default('([A-Z][A-Z0-9]+-\\d+)').refine(isValidRegex, 'Must be a valid regular expression'),
+  // Take the ticket from the current git branch when `clock start` gets no `-j`.
+  startFromGit: z.boolean().default(false),
+  // Repositories the monitor watches for checkouts, offering to switch the timer to the new branch's ticket.
+  watchRepositories: z.array(z.string()).default([]),
+});
+
+export type JiraConfig = z.infer<typeof JiraConfigSchema>;
+
+export const DEFAULT_JIRA_CONFIG: JiraConfig = JiraConfigSchema.parse({});
+
+export function loadJiraConfig(configPath: string): JiraConfig {
+  return loadJsonConfig(JiraConfigSchema, configPath, 'Jira');
+}
+
+/**
+ * The Clockify project mapped to a ticket's Jira project (`ABC` for `ABC-123`), if any.
+ */
+export function getMappedProject(config: JiraConfig, ticketId: string): string | undefined {
+  const projectKey = ticketId.split('-')[0].toUpperCase();
+  return config.projects[projectKey];
+}
@@ -1,42 +1,90 @@
-import axios from 'axios';
+import { getConfigValue } from './credentials.js';
+import { createHttpClient } from './http-client.js';
+import { AuthError, NotFoundError, OfflineError, ServerError } from './http-errors.js';
 
-const JIRA_API_URL = process.env.ATLASSIAN_URL;
-const JIRA_API_TOKEN = process.env.ATLASSIAN_API_TOKEN;
-const JIRA_USER_EMAIL = process.env.ATLASSIAN_EMAIL;
+export interface JiraCredentials {
+  url: string;
+  email: string;
+  apiToken: string;
+}
+
+// Jira Cloud's limits are based on request cost; a few requests a second stays well clear.
+const jiraClient = createHttpClient({ service: 'Jira', requestsPerSecond: 5 });
+
+function getJiraCredentials(): JiraCredentials | null {
+  const url = getConfigValue('jira.url');
+  const email = getConfigValue('jira.email');
+  const apiToken = getConfigValue('jira.apiToken');
+  return url && email && apiToken ? { url, email, apiToken } : null;
+}
+
+async function sendJiraRequest(
+  credentials: JiraCredentials,
+  apiPath: string,
+  method: 'POST' | 'GET' | 'PUT',
+  body?: unknown,
+) {
+  const response = await jiraClient.request({
+    method,
+    url: `${credentials.url.replace(/\/$/, '')}${apiPath}`,
+    data: body,
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${credentials.email}:${credentials.apiToken}`).toString('base64')}`,
+    },
+  });
+  return response.data;
+}
 
-async function jiraApiRequest(url: string, method: 'POST' | 'GET', body?: unknown) {
-  if (!JIRA_API_URL || !JIRA_API_TOKEN || !JIRA_USER_EMAIL) {
-    console.error('Jira environment variables are not set. Please check your .env file.');
+/**
+ * Sends a request with the stored credentials. Resolves to null when Jira isn't set up;
+ * failed requests throw the matching HttpError.
+ */
+async function jiraApiRequest(apiPath: string, method: 'POST' | 'GET' | 'PUT', body?: unknown) {
+  let credentials: JiraCredentials | null;
+  try {
+    credentials = getJiraCredentials();
+  } catch (error: unknown) {
+    console.error(error instanceof Error ? error.message : error);
     return null;
   }
 
-  const headers = {
-    Authorization: `Basic ${Buffer.from(`${JIRA_USER_EMAIL}:${JIRA_API_TOKEN}`).toString('base64')}`,
-    Accept: 'application/json',
-    'Content-Type': 'application/json',
-  };
+  if (!credentials) {
+    console.error('Jira credentials are not set. Run `clock login jira` to set them up.');
+    return null;
+  }
 
+  return await sendJiraRequest(credentials, apiPath, method, body);
+}
+
+/**
+ * Checks credentials before they are stored. Resolves to the account's display name,
+ * or null when Jira rejects them.
+ */
+export async function verifyJiraCredentials(credentials: JiraCredentials): Promise<string | null> {
   try {
-    const response = await axios({
-      method,
-      url,
-      data: body,
-      headers,
-    });
-    return response.data;
+    const myself = await sendJiraRequest(credentials, '/myself', 'GET');
+    return myself.displayName ?? credentials.email;
   } catch (error: unknown) {
-    if (error instanceof Error) {
-      console.error('Error making Jira API request:', error.message);
+    if (error instanceof AuthError) {
+      return null;
     }
-
-    return null;
+    throw error;
   }
 }
 
-export async function stopJiraTimer(ticketId: string, timeSpentSeconds: number) {
-  const url = `${JIRA_API_URL}/issue/${ticketId}/worklog`;
-  const body = {
+/**
+ * Jira expects worklog timestamps like `2025-07-21T09:00:00.000+0000`.
+ */
+function toJiraDate(date: string) {
+  return new Date(date).toISOString().replace('Z', '+0000');
+}
+
+const DEFAULT_WORKLOG_COMMENT = 'Timer stopped from Clocktopus';
+
+function worklogBody(timeSpentSeconds: number, started?: string, comment = DEFAULT_WORKLOG_COMMENT) {
+  return {
     timeSpentSeconds,
+    ...(started ? { started: toJiraDate(started) } : {}),
     comment: {
       type: 'doc',
       version: 1,
@@ -46,18 +94,139 @@ export async function stopJiraTimer(ticketId: string, timeSpentSeconds: number)
           content: [
             {
               type: 'text',
-              text: 'Timer stopped from Clocktopus',
+              text: comment || DEFAULT_WORKLOG_COMMENT,
             },
           ],
         },
       ],
     },
   };
+}
+
+/**
+ * Adds a worklog to the ticket, dated `started` and commented with the entry's description.
+ * Resolves to the created worklog (with its `id`), or null when Jira isn't set up.
+ */
+export async function stopJiraTimer(ticketId: string, timeSpentSeconds: number, started?: string, comment?: string) {
+  const url = `/issue/${ticketId}/worklog`;
+  const body = worklogBody(timeSpentSeconds, started, comment);
   console.log('Jira request body:', JSON.stringify(body, null, 2));
   return await jiraApiRequest(url, 'POST', body);
 }
 
+/**
+ * Finds the current user's worklog on a ticket that started closest to one of the
+ * given times (within five minutes). Worklogs posted without an explicit start are
+ * dated when they were created, so callers pass both the start and the end of a session.
+ */
+export async function findJiraWorklog(ticketId: string, candidates: string[]) {
+  const myself = await jiraApiRequest(`/myself`, 'GET');
+  const response = await jiraApiRequest(`/issue/${ticketId}/worklog`, 'GET');
+  if (!myself || !response) {
+    return null;
+  }
+
+  const toleranceMs = 5 * 60 * 1000;
+  const worklogs: { id: string; started: string; author?: { accountId?: string } }[] = response.worklogs ?? [];
+  const distance = (worklog: { started: string }) =>
+    Math.min(...candidates.map((c) => Math.abs(new Date(worklog.started).getTime() - new Date(c).getTime())));
+
+  return (
+    worklogs
+      .filter((worklog) => worklog.author?.accountId === myself.accountId && distance(worklog) <= toleranceMs)
+      .sort((a, b) => distance(a) - distance(b))[0] ?? null
+  );
+}
+
+export async function updateJiraWorklog(
+  ticketId: string,
+  worklogId: string,
+  timeSpentSeconds: number,
+  started?: string,
+  comment?: string,
+) {
+  const url = `/issue/${ticketId}/worklog/${worklogId}`;
+  return await jiraApiRequest(url, 'PUT', worklogBody(timeSpentSeconds, started, comment));
+}
+
+export interface JiraIssue {
+  key: string;
+  summary: string;
+  status: string;
+}
+
+/**
+ * Runs a JQL search and returns the matching issues with their summary and status.
+ * Resolves to null when Jira isn't set up.
+ */
+export async function searchJiraIssues(jql: string, maxResults = 50): Promise<JiraIssue[] | null> {
+  const response = await jiraApiRequest(`/search/jql`, 'POST', {
+    jql,
+    fields: ['summary', 'status'],
+    maxResults,
+  });
+  if (!response) {
+    return null;
+  }
+
+  return (response.issues ?? []).map(
+    (issue: { key: string; fields: { summary: string; status?: { name?: string } } }) => ({
+      key: issue.key,
+      summary: issue.fields.summary,
+      status: issue.fields.status?.name ?? '',
+    }),
+  );
+}
+
+/**
+ * Moves an issue to the status called `statusName`, using whichever of its available
+ * transitions leads there. Resolves to false when there is no such transition.
+ */
+export async function transitionJiraIssue(ticketId: string, statusName: string): Promise<boolean> {
+  const url = `/issue/${ticketId}/transitions`;
+  const response = await jiraApiRequest(url, 'GET');
+  const transitions: { id: string; name: string; to?: { name?: string } }[] = response?.transitions ?? [];
+  const wanted = statusName.toLowerCase();
+  const transition = transitions.find((t) => t.to?.name?.toLowerCase() === wanted || t.name.toLowerCase() === wanted);
+  if (!transition) {
+    return false;
+  }
+
+  // A successful transition has an empty body, so only a missing setup returns null.
+  return (await jiraApiRequest(url, 'POST', { transition: { id: transition.id } })) !== null;
+}
+
 export async function getJiraTicket(ticketId: string) {
-  const url = `${JIRA_API_URL}/issue/${ticketId}`;
+  const url = `/issue/${ticketId}`;
   return await jiraApiRequest(url, 'GET');
 }
+
+/**
+ * Builds a time entry description from a Jira ticket (`ABC-123 Ticket summary`),
+ * falling back to the given description when Jira isn't set up, can't be reached,
+ * rejects the credentials or doesn't know the ticket, so a timer can still be started.
+ */
+export async function getJiraDescription(ticketId: string | undefined, description: string) {
+  if (!ticketId) {
+    return description;
+  }
+
+  try {
+    const ticket = await getJiraTicket(ticketId);
+    return ticket ? `${ticketId} ${ticket.fields.summary}` : description;
+  } catch (error: unknown) {
+    if (
+      error instanceof AuthError ||
+      error instanceof OfflineError ||
+      error instanceof ServerError ||
+      error instanceof NotFoundError
+    ) {
+      console.error(`Could not fetch ${ticketId} from Jira (${error.message}); using the description as it is.`);
+      if (error.hint) {
+        console.error(error.hint);
+      }
+      return description;
+    }
+    throw error;
+  }
+}
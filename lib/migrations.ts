@@ -0,0 +1,218 @@
+import Database from 'better-sqlite3';
+import { literalTitlePattern } from './calendar-rules.js';
+
+/**
+ * One step of the database schema. Migrations run in order of `version`, each in its own
+ * transaction, and the database's `user_version` records the last one applied. Add new
+ * ones to the end of `MIGRATIONS` and never change one that has been released.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+}
+
+/**
+ * The database was migrated by a newer Clocktopus than this one.
+ */
+export class SchemaVersionError extends Error {}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((info) => info.name === column);
+}
+
+/**
+ * Calendar events used to be mapped to projects by their exact title. Each of those
+ * mappings becomes a rule matching that title literally.
+ */
+function migrateEventProjects(db: Database.Database) {
+  const table = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'event_projects'").get();
+  if (!table) {
+    return;
+  }
+
+  // Before workspaces were tracked the table had no workspace column.
+  const workspaceColumn = hasColumn(db, 'event_projects', 'workspaceId') ? 'workspaceId' : 'NULL AS workspaceId';
+  const rows = db.prepare(`SELECT ${workspaceColumn}, eventName, projectId FROM event_projects`).all() as {
+    workspaceId: string | null;
+    eventName: string;
+    projectId: string | null;
+  }[];
+  const insert = db.prepare('INSERT INTO event_rules (workspaceId, title, projectId, createdAt) VALUES (?, ?, ?, ?)');
+
+  const now = new Date().toISOString();
+  for (const row of rows) {
+    insert.run(row.workspaceId, literalTitlePattern(row.eventName), row.projectId, now);
+  }
+  db.exec('DROP TABLE event_projects');
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    // The schema as it was before migrations were tracked. Databases from then are at
+    // version 0 and may lack any of the later columns, so everything here checks first.
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          description TEXT NOT NULL,
+          startedAt TEXT NOT NULL,
+          completedAt TEXT,
+          isAutoCompleted INTEGER DEFAULT 0,
+          jiraTicket TEXT,
+          workspaceId TEXT,
+          taskId TEXT,
+          tagIds TEXT NOT NULL DEFAULT '[]',
+          billable INTEGER,
+          jiraWorklogId TEXT
+        )
+      `);
+      if (!hasColumn(db, 'sessions', 'workspaceId')) {
+        db.exec('ALTER TABLE sessions ADD COLUMN workspaceId TEXT');
+      }
+      if (!hasColumn(db, 'sessions', 'taskId')) {
+        db.exec(`
+          ALTER TABLE sessions ADD COLUMN taskId TEXT;
+          ALTER TABLE sessions ADD COLUMN tagIds TEXT NOT NULL DEFAULT '[]';
+          ALTER TABLE sessions ADD COLUMN billable INTEGER;
+        `);
+      }
+      if (!hasColumn(db, 'sessions', 'jiraWorklogId')) {
+        db.exec('ALTER TABLE sessions ADD COLUMN jiraWorklogId TEXT');
+      }
+      // Google tokens from before the credential store; moved there on first use.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS google_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          token TEXT NOT NULL,
+          createdAt TEXT NOT NULL
+        )
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS event_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          workspaceId TEXT,
+          priority INTEGER NOT NULL DEFAULT 0,
+          title TEXT,
+          organizer TEXT,
+          attendeeDomain TEXT,
+          calendarId TEXT,
+          colorId TEXT,
+          projectId TEXT,
+          createdAt TEXT NOT NULL
+        )
+      `);
+      migrateEventProjects(db);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS calendar_entries (
+          workspaceId TEXT NOT NULL,
+          calendarId TEXT NOT NULL,
+          eventId TEXT NOT NULL,
+          recurringEventId TEXT,
+          originalStartTime TEXT,
+          entryId TEXT,
+          outboxOperationId INTEGER,
+          description TEXT NOT NULL,
+          startedAt TEXT NOT NULL,
+          endedAt TEXT NOT NULL,
+          loggedAt TEXT NOT NULL,
+          PRIMARY KEY (workspaceId, calendarId, eventId)
+        )
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          operation TEXT NOT NULL,
+          method TEXT NOT NULL,
+          url TEXT NOT NULL,
+          body TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          nextAttemptAt TEXT NOT NULL,
+          claimedAt TEXT,
+          lastError TEXT,
+          response TEXT,
+          createdAt TEXT NOT NULL,
+          completedAt TEXT
+        )
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS templates (
+          name TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          description TEXT,
+          jiraTicket TEXT,
+          tags TEXT NOT NULL DEFAULT '[]',
+          createdAt TEXT NOT NULL
+        )
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS idle_gaps (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sessionId TEXT NOT NULL,
+          startedAt TEXT NOT NULL,
+          detectedAt TEXT NOT NULL,
+          trimmedSeconds INTEGER NOT NULL
+        )
+      `);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'session-indexes',
+    // Almost every session query is scoped to a workspace and ordered by start time.
+    up(db) {
+      db.exec(`
+        CREATE INDEX sessions_workspace_started ON sessions (workspaceId, startedAt);
+        CREATE INDEX idle_gaps_session ON idle_gaps (sessionId);
+      `);
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+export function getPendingMigrations(db: Database.Database): Migration[] {
+  const version = getSchemaVersion(db);
+  return MIGRATIONS.filter((migration) => migration.version > version);
+}
+
+/**
+ * Applies the pending migrations in order. Each one re-reads the version once it holds the
+ * write lock, so a migration another process (e.g. the monitor) just applied is skipped.
+ * Returns the migrations this call applied.
+ */
+export function applyMigrations(db: Database.Database): Migration[] {
+  const applied: Migration[] = [];
+
+  for (const migration of MIGRATIONS) {
+    const run = db.transaction(() => {
+      if (getSchemaVersion(db) >= migration.version) {
+        return false;
+      }
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+      return true;
+    });
+
+    if (run.immediate()) {
+      applied.push(migration);
+    }
+  }
+
+  return applied;
+}
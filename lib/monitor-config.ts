@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+import { loadJsonConfig } from './config-file.js';
+import { currentTime } from './time.js';
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const WorkingHoursSchema = z.object({
+  days: z.array(z.enum(DAYS)).default([...DAYS]),
+  start: z.string().regex(TIME_OF_DAY, 'Use HH:mm'),
+  end: z.string().regex(TIME_OF_DAY, 'Use HH:mm'),
+});
+
+const PolicySchema = z.object({
+  // Stop the timer after this much idle time.
+  idleThresholdSeconds: z.number().int().positive().default(300),
+  // Stop the timer on idle, lock or sleep. Disable for meeting projects.
+  autoStop: z.boolean().default(true),
+  // Restart an auto-stopped timer when the user comes back.
+  autoResume: z.boolean().default(true),
+  // Only resume timers that were auto-stopped within this window.
+  autoResumeWindowMinutes: z.number().positive().default(120),
+  resumeCooldownSeconds: z.number().nonnegative().default(10),
+  // Ask with a notification instead of resuming straight away.
+  promptBeforeResume: z.boolean().default(false),
+  // Auto-resume only inside these windows. Empty means at any time.
+  workingHours: z.array(WorkingHoursSchema).default([]),
+});
+
+const MonitorConfigSchema = PolicySchema.extend({
+  lockPollIntervalMs: z.number().int().min(500).default(3000),
+  idlePollIntervalMs: z.number().int().min(500).default(5000),
+  outboxSyncIntervalMs: z.number().int().min(1000).default(30_000),
+  // Local control API for editor plugins, launchers and status bars.
+  apiEnabled: z.boolean().default(true),
+  apiPort: z.number().int().min(1).max(65535).default(4387),
+  // Listen on a Unix socket instead of a TCP port.
+  apiSocket: z.string().optional(),
+  // Log finished calendar events that a rule maps: as each one ends, or once a day.
+  calendarAutoLog: z.enum(['off', 'event-end', 'daily']).default('off'),
+  // When the daily calendar log runs.
+  calendarAutoLogAt: z.string().regex(TIME_OF_DAY, 'Use HH:mm').default('18:00'),
+  // How often the calendar is checked for events to log.
+  calendarAutoLogIntervalMs: z.number().int().min(10_000).default(300_000),
+  // Overrides keyed by Clockify project ID or name.
+  projects: z.record(z.string(), PolicySchema.partial()).default({}),
+});
+
+export type MonitorPolicy = z.infer<typeof PolicySchema>;
+export type MonitorConfig = z.infer<typeof MonitorConfigSchema>;
+
+export const DEFAULT_MONITOR_CONFIG: MonitorConfig = MonitorConfigSchema.parse({});
+
+export function loadMonitorConfig(configPath: string): MonitorConfig {
+  return loadJsonConfig(MonitorConfigSchema, configPath, 'monitor');
+}
+
+/**
+ * Applies a project's overrides (matched by ID first, then by name) on top of the defaults.
+ */
+export function resolvePolicy(config: MonitorConfig, projectId?: string | null, projectName?: string): MonitorPolicy {
+  const overrides = (projectId && config.projects[projectId]) || (projectName && config.projects[projectName]) || {};
+
+  return {
+    idleThresholdSeconds: overrides.idleThresholdSeconds ?? config.idleThresholdSeconds,
+    autoStop: overrides.autoStop ?? config.autoStop,
+    autoResume: overrides.autoResume ?? config.autoResume,
+    autoResumeWindowMinutes: overrides.autoResumeWindowMinutes ?? config.autoResumeWindowMinutes,
+    resumeCooldownSeconds: overrides.resumeCooldownSeconds ?? config.resumeCooldownSeconds,
+    promptBeforeResume: overrides.promptBeforeResume ?? config.promptBeforeResume,
+    workingHours: overrides.workingHours ?? config.workingHours,
+  };
+}
+
+function toTimeOfDay(date: Date) {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+export function isWithinWorkingHours(policy: MonitorPolicy, date = currentTime()): boolean {
+  if (policy.workingHours.length === 0) {
+    return true;
+  }
+
+  const day = DAYS[date.getDay()];
+  const time = toTimeOfDay(date);
+
+  return policy.workingHours.some((window) => window.days.includes(day) && time >= window.start && time < window.end);
+}
+
+/**
+ * Whether the daily calendar log is due: `calendarAutoLogAt` has passed today.
+ */
+export function isCalendarAutoLogDue(config: MonitorConfig, date = currentTime()): boolean {
+  return toTimeOfDay(date) >= config.calendarAutoLogAt;
+}
+
+/**
+ * Reloads the config whenever the file changes. Invalid edits, and failures while `onChange`
+ * applies the new config (sync or async), are reported to `onError`. Returns a function
+ * that stops watching.
+ */
+export function watchMonitorConfig(
+  configPath: string,
+  onChange: (config: MonitorConfig) => void | Promise<void>,
+  onError: (error: unknown) => void,
+): () => void {
+  // watchFile polls, which survives editors that replace the file instead of writing in place.
+  const listener = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    Promise.resolve()
+      .then(() => onChange(loadMonitorConfig(configPath)))
+      .catch(onError);
+  };
+
+  fs.watchFile(configPath, { interval: 2000 }, listener);
+  return () => fs.unwatchFile(configPath, listener);
+}
@@ -0,0 +1,491 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import chalk from 'chalk';
+import { logCalendarEvents } from './calendar.js';
+import { loadCalendarConfig } from './calendar-config.js';
+import { ControlContext, createControlHandlers } from './control-handlers.js';
+import { createControlServer, MonitorEvent, MonitorEventBus } from './control-server.js';
+import { getLatestSession, getOpenSession, getSetting, logIdleGap, setSetting } from './db.js';
+import { findJiraKey, watchBranch } from './git.js';
+import { getCalendarClient, getGoogleToken } from './google.js';
+import { unlessOffline } from './http-errors.js';
+import { DEFAULT_JIRA_CONFIG, getMappedProject, loadJiraConfig } from './jira-config.js';
+import {
+  isCalendarAutoLogDue,
+  isWithinWorkingHours,
+  loadMonitorConfig,
+  MonitorConfig,
+  MonitorPolicy,
+  resolvePolicy,
+  watchMonitorConfig,
+} from './monitor-config.js';
+import { CALENDAR_CONFIG_PATH, JIRA_CONFIG_PATH, MONITOR_CONFIG_PATH } from './paths.js';
+import { createPresenceSources, PresenceEvent, PresenceListener, PresenceSource } from './presence/index.js';
+import { formatDuration, toLocalDate } from './report.js';
+import { currentTime } from './time.js';
+import { getSessionDetails, stopAndRecord, switchTimer } from './timer.js';
+import { getLocalProjects } from './workspace.js';
+
+export interface MonitorActions {
+  // Stops the running timer, back-dated by `idleSeconds` when the user went idle
+  // before it was noticed; resolves true when one was actually stopped.
+  stop(reason: string, idleSeconds?: number): Promise<boolean>;
+  // Restarts the last auto-stopped timer if it is still eligible.
+  resume(): Promise<void>;
+}
+
+/**
+ * Turns presence events into timer actions. Events are handled one at a time, in
+ * arrival order, so a lock and an idle sample can't both stop (or resume) the timer.
+ * `getPolicy` is consulted for every event, so config reloads and project switches
+ * take effect immediately.
+ */
+export function createPresenceHandler(actions: MonitorActions, getPolicy: () => MonitorPolicy) {
+  let isLocked = false;
+  let lastIdle = false;
+  let queue: Promise<void> = Promise.resolve();
+
+  async function handle(event: PresenceEvent) {
+    const policy = getPolicy();
+
+    switch (event.type) {
+      case 'locked':
+      case 'sleep':
+        if (!isLocked) {
+          isLocked = true;
+          if (!policy.autoStop) break;
+          await actions.stop(
+            event.type === 'sleep'
+              ? 'System is going to sleep. Stopping timer...'
+              : 'Screen is locked/off. Stopping timer...',
+          );
+        }
+        break;
+      case 'unlocked':
+      case 'wake':
+        if (isLocked) {
+          console.log(chalk.green('Screen is unlocked/on. Attempting to restart timer...'));
+          await actions.resume();
+          isLocked = false;
+        }
+        break;
+      case 'idle':
+        if (event.idleSeconds >= policy.idleThresholdSeconds) {
+          if (!policy.autoStop) break;
+          const stopped = await actions.stop(
+            `System idle for ${Math.floor(event.idleSeconds)} seconds. Stopping timer...`,
+            event.idleSeconds,
+          );
+          if (stopped) lastIdle = true;
+        } else {
+          // User active again → resume even if lock events were missed
+          if (lastIdle) {
+            await actions.resume();
+          }
+          lastIdle = false;
+        }
+        break;
+    }
+  }
+
+  return (event: PresenceEvent): Promise<void> => {
+    queue = queue.then(() => handle(event)).catch((error) => console.error('Error handling presence event:', error));
+    return queue;
+  };
+}
+
+/**
+ * Starts every source, skipping (and reporting) those that can't run on this machine.
+ * Returns the sources that started.
+ */
+export async function startPresenceSources(
+  sources: PresenceSource[],
+  listener: PresenceListener,
+): Promise<PresenceSource[]> {
+  const started: PresenceSource[] = [];
+
+  for (const source of sources) {
+    try {
+      await source.start(listener);
+      started.push(source);
+    } catch (error) {
+      console.error(chalk.red(`Failed to start the ${source.name} presence source. It will be disabled.`));
+      console.error(error);
+    }
+  }
+
+  return started;
+}
+
+export interface MonitorContext extends Omit<ControlContext, 'getPresence'> {
+  // Called after the monitor starts or stops a timer, e.g. to refresh the status file.
+  onTimerChange(): void;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs the monitor daemon: stops the timer when the user goes idle or away and resumes it
+ * when they come back, syncs queued changes, auto-logs calendar events, watches git
+ * repositories for branch switches and serves the control API. Settings come from the
+ * monitor config and are reloaded when it changes. Throws when the config is invalid or
+ * no presence sources can be set up; otherwise resolves with a function that stops it all.
+ */
+export async function startMonitor(context: MonitorContext): Promise<() => void> {
+  const { clockify, workspaceId, userId } = context;
+  const events = new MonitorEventBus();
+  events.on('event', (event: MonitorEvent) => {
+    if (event.type.startsWith('timer-')) {
+      context.onTimerChange();
+    }
+  });
+
+  async function stopTimerAndLog(reason: string, idleSeconds = 0) {
+    const activeEntry = await unlessOffline(clockify.getActiveTimer(workspaceId, userId), null);
+    if (!activeEntry) return false;
+
+    console.log(chalk.yellow(reason));
+
+    // Nobody was working while idle, so end the entry when the idleness began
+    // (but never before it started).
+    const detectedAt = currentTime();
+    const startedAt = new Date(activeEntry.timeInterval.start).getTime();
+    const completedAt = new Date(Math.max(detectedAt.getTime() - idleSeconds * 1000, startedAt + 1000));
+    const openSession = getOpenSession(workspaceId);
+
+    const stopped = await stopAndRecord(context, { completedAt: completedAt.toISOString(), isAutoCompleted: true });
+    if (!stopped) return false;
+
+    if (openSession && idleSeconds > 0) {
+      logIdleGap(openSession.id, completedAt.toISOString(), detectedAt.toISOString());
+      const trimmedSeconds = Math.round((detectedAt.getTime() - completedAt.getTime()) / 1000);
+      console.log(chalk.gray(`Trimmed ${formatDuration(trimmedSeconds)} of idle time from the entry.`));
+    }
+
+    console.log(chalk.red('Timer stopped.'));
+    events.publish('timer-stopped', { reason, auto: true, completedAt: completedAt.toISOString() });
+    return true;
+  }
+
+  let config: MonitorConfig = loadMonitorConfig(MONITOR_CONFIG_PATH);
+
+  // Lets overrides in the config be keyed by project name as well as ID.
+  const projectNames = new Map((await getLocalProjects(workspaceId)).map((project) => [project.id, project.name]));
+  const policyFor = (projectId?: string | null) =>
+    resolvePolicy(config, projectId, projectId ? projectNames.get(projectId) : undefined);
+
+  // Safer restart w/ cooldown; only resume a recent auto-completed session
+  let lastResumeAt = 0;
+
+  async function safeRestartTimerIfNeeded() {
+    const latestSession = getLatestSession(workspaceId);
+    if (!latestSession) return;
+
+    const policy = policyFor(latestSession.projectId);
+    const now = currentTime().getTime();
+    if (now - lastResumeAt < policy.resumeCooldownSeconds * 1000) return;
+
+    // Small delay lets services settle after wake/activity
+    await sleep(800);
+
+    const activeEntry = await unlessOffline(clockify.getActiveTimer(workspaceId, userId), null);
+    if (activeEntry) return;
+
+    const windowStart = currentTime().getTime() - policy.autoResumeWindowMinutes * 60 * 1000;
+    const completedAt = latestSession.completedAt ? new Date(latestSession.completedAt).getTime() : 0;
+
+    const eligible =
+      policy.autoResume &&
+      latestSession.isAutoCompleted &&
+      completedAt > windowStart &&
+      !!latestSession.projectId &&
+      isWithinWorkingHours(policy);
+
+    if (!eligible) return;
+
+    if (policy.promptBeforeResume) {
+      lastResumeAt = currentTime().getTime();
+      const confirmed = await clockify.askForConfirmation(
+        'Welcome back! Resume your timer?',
+        latestSession.description,
+        'Resume',
+      );
+      if (!confirmed) return;
+    }
+
+    const entry = await clockify.startTimer(
+      workspaceId,
+      latestSession.projectId,
+      latestSession.description,
+      latestSession.jiraTicket ?? undefined,
+      undefined,
+      getSessionDetails(latestSession),
+    );
+    lastResumeAt = currentTime().getTime();
+    if (entry) {
+      console.log(chalk.green('Timer restarted for the last used project.'));
+      events.publish('timer-started', {
+        projectId: latestSession.projectId,
+        description: latestSession.description,
+        resumed: true,
+      });
+    }
+  }
+
+  // The running project's policy decides whether (and when) to auto-stop.
+  const handlePresenceEvent = createPresenceHandler({ stop: stopTimerAndLog, resume: safeRestartTimerIfNeeded }, () =>
+    policyFor(getOpenSession(workspaceId)?.projectId),
+  );
+
+  // Tracks presence for `/status` and publishes transitions (not every idle sample) to `/events`.
+  const presence = { locked: false, idle: false };
+  function onPresenceEvent(event: PresenceEvent) {
+    if (event.type === 'idle') {
+      const idle = event.idleSeconds >= policyFor(getOpenSession(workspaceId)?.projectId).idleThresholdSeconds;
+      if (idle !== presence.idle) {
+        presence.idle = idle;
+        events.publish(idle ? 'idle' : 'active', { idleSeconds: Math.floor(event.idleSeconds) });
+      }
+    } else {
+      presence.locked = event.type === 'locked' || event.type === 'sleep';
+      events.publish(event.type);
+    }
+
+    return handlePresenceEvent(event);
+  }
+
+  let sources: PresenceSource[] = [];
+
+  // Returns false when none of the sources could be started.
+  async function startSources() {
+    sources = await startPresenceSources(createPresenceSources(undefined, undefined, config), onPresenceEvent);
+    if (sources.length === 0) {
+      return false;
+    }
+
+    console.log(
+      chalk.blue(`Monitoring lock state and idle time (${sources.map((source) => source.name).join(', ')})...`),
+    );
+    return true;
+  }
+
+  function stopSources() {
+    for (const source of sources) {
+      try {
+        source.stop();
+      } catch {}
+    }
+    sources = [];
+  }
+
+  if (!(await startSources())) {
+    throw new Error("None of the presence sources could be started, so the monitor can't tell when you're away.");
+  }
+
+  async function syncQueuedChanges() {
+    try {
+      const { synced, failed } = await clockify.syncOutbox();
+      if (synced > 0) {
+        console.log(chalk.green(`Synced ${synced} queued change(s) to Clockify.`));
+      }
+      if (failed > 0) {
+        console.log(chalk.red(`Clockify rejected ${failed} queued change(s).`));
+      }
+    } catch (error) {
+      console.error('Error syncing queued changes:', error);
+    }
+  }
+
+  let outboxInterval = setInterval(syncQueuedChanges, config.outboxSyncIntervalMs);
+
+  // Logs finished calendar events that a rule maps. Events without a rule and entries of
+  // cancelled events are left for `clock calendar log`, which can ask about them.
+  let isLoggingCalendar = false;
+
+  async function autoLogCalendarEvents() {
+    if (config.calendarAutoLog === 'off' || isLoggingCalendar) return;
+
+    const today = toLocalDate(currentTime());
+    if (
+      config.calendarAutoLog === 'daily' &&
+      (!isCalendarAutoLogDue(config) || getSetting<string>('calendarAutoLoggedOn') === today)
+    ) {
+      return;
+    }
+    isLoggingCalendar = true;
+    try {
+      if (!getGoogleToken()) return;
+
+      const calendarConfig = loadCalendarConfig(CALENDAR_CONFIG_PATH);
+      const calendarApi = await getCalendarClient();
+      if (!calendarApi) return;
+
+      const dayStart = new Date(`${today}T00:00:00`);
+      const dayEnd = new Date(dayStart);
+      dayEnd.setDate(dayEnd.getDate() + 1);
+      const { logged } = await logCalendarEvents(
+        { clockify, calendar: calendarApi, workspaceId, userId, projects: [], getDetails: async () => ({}) },
+        {
+          timeMin: dayStart.toISOString(),
+          timeMax: dayEnd.toISOString(),
+          calendars: calendarConfig.calendars,
+          responseStatuses: calendarConfig.responseStatuses,
+          logFreeEvents: calendarConfig.logFreeEvents,
+          overlap: calendarConfig.overlap,
+          interactive: false,
+          endedBefore: currentTime().toISOString(),
+        },
+      );
+
+      if (config.calendarAutoLog === 'daily') {
+        setSetting('calendarAutoLoggedOn', today);
+      }
+      if (logged > 0) {
+        console.log(chalk.green(`Logged ${logged} calendar event(s).`));
+      }
+    } catch (error) {
+      console.error('Error logging calendar events:', error);
+    } finally {
+      isLoggingCalendar = false;
+    }
+  }
+
+  let calendarInterval = setInterval(autoLogCalendarEvents, config.calendarAutoLogIntervalMs);
+
+  const controlHandlers = createControlHandlers({ ...context, getPresence: () => presence }, events);
+  let controlServer: http.Server | null = null;
+
+  function startControlServer() {
+    if (!config.apiEnabled) return;
+
+    const server = createControlServer(controlHandlers, events);
+    server.on('error', (error) => console.error(chalk.red('Control API error:'), error.message));
+
+    if (config.apiSocket) {
+      // A socket file left behind by a crashed monitor would make listen() fail.
+      fs.rmSync(config.apiSocket, { force: true });
+      server.listen(config.apiSocket, () => console.log(chalk.blue(`Control API listening on ${config.apiSocket}`)));
+    } else {
+      server.listen(config.apiPort, '127.0.0.1', () =>
+        console.log(chalk.blue(`Control API listening on http://127.0.0.1:${config.apiPort}`)),
+      );
+    }
+    controlServer = server;
+  }
+
+  function stopControlServer() {
+    controlServer?.close();
+    controlServer?.closeAllConnections();
+    controlServer = null;
+  }
+
+  startControlServer();
+
+  let jiraConfig = DEFAULT_JIRA_CONFIG;
+  try {
+    jiraConfig = loadJiraConfig(JIRA_CONFIG_PATH);
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    console.error(chalk.red('Branch watching is disabled.'));
+  }
+
+  // Offer to move the running timer to the ticket of a newly checked-out branch.
+  async function offerBranchSwitch(branch: string | null) {
+    const key = branch ? findJiraKey(branch, jiraConfig.branchPattern) : null;
+    const openSession = getOpenSession(workspaceId);
+    if (!key || !openSession || openSession.jiraTicket === key) return;
+
+    const confirmed = await clockify.askForConfirmation(
+      `Checked out ${branch}`,
+      `Switch your timer to ${key}?`,
+      'Switch',
+    );
+    if (!confirmed) return;
+
+    const mappedProject = getMappedProject(jiraConfig, key);
+    const project = mappedProject ? await context.findProject(mappedProject) : undefined;
+    const projectId = project?.id ?? openSession.projectId;
+    const switched = await switchTimer(context, projectId, undefined, key);
+    if (switched?.entry) {
+      console.log(chalk.green(`Timer switched to ${key}.`));
+      events.publish('timer-stopped', { auto: false });
+      events.publish('timer-started', { projectId, description: switched.entry.description });
+    }
+  }
+
+  const stopWatchingBranches: (() => void)[] = [];
+  for (const repository of jiraConfig.watchRepositories) {
+    const stopWatching = await watchBranch(repository, (branch) => {
+      offerBranchSwitch(branch).catch((error) => console.error('Error switching timer to the new branch:', error));
+    });
+    if (stopWatching) {
+      stopWatchingBranches.push(stopWatching);
+      console.log(chalk.blue(`Watching ${repository} for branch checkouts.`));
+    } else {
+      console.error(chalk.red(`${repository} is not a git repository; its branch won't be watched.`));
+    }
+  }
+
+  const stopWatchingConfig = watchMonitorConfig(
+    MONITOR_CONFIG_PATH,
+    async (next) => {
+      const previous = config;
+      config = next;
+      console.log(chalk.blue('Monitor config reloaded.'));
+
+      if (
+        next.lockPollIntervalMs !== previous.lockPollIntervalMs ||
+        next.idlePollIntervalMs !== previous.idlePollIntervalMs
+      ) {
+        stopSources();
+        if (!(await startSources())) {
+          console.error(
+            chalk.red("None of the presence sources could be restarted; the timer won't stop while you're away."),
+          );
+        }
+      }
+
+      if (
+        next.apiEnabled !== previous.apiEnabled ||
+        next.apiPort !== previous.apiPort ||
+        next.apiSocket !== previous.apiSocket
+      ) {
+        stopControlServer();
+        startControlServer();
+      }
+
+      if (next.outboxSyncIntervalMs !== previous.outboxSyncIntervalMs) {
+        clearInterval(outboxInterval);
+        outboxInterval = setInterval(syncQueuedChanges, next.outboxSyncIntervalMs);
+      }
+
+      if (next.calendarAutoLogIntervalMs !== previous.calendarAutoLogIntervalMs) {
+        clearInterval(calendarInterval);
+        calendarInterval = setInterval(autoLogCalendarEvents, next.calendarAutoLogIntervalMs);
+      }
+    },
+    (error) => {
+      console.error(chalk.red('Ignoring invalid monitor config; keeping the previous settings.'));
+      console.error(error instanceof Error ? error.message : error);
+    },
+  );
+
+  return () => {
+    stopSources();
+    try {
+      stopControlServer();
+    } catch {}
+    clearInterval(outboxInterval);
+    clearInterval(calendarInterval);
+    try {
+      stopWatchingConfig();
+    } catch {}
+    for (const stopWatching of stopWatchingBranches) {
+      try {
+        stopWatching();
+      } catch {}
+    }
+  };
+}
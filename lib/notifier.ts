@@ -0,0 +1,37 @@
+import { NotificationCenter } from 'node-notifier';
+
+// `console` prints notifications instead of showing them, for machines without a desktop such as CI.
+const NOTIFIER_ENV = 'CLOCKTOPUS_NOTIFIER';
+
+export interface Notification {
+  title: string;
+  message: string;
+  sound?: boolean;
+  wait?: boolean;
+  actions?: string[];
+}
+
+export type NotificationCallback = (err: unknown, response: unknown, metadata: { activationValue?: string }) => void;
+
+export interface Notifier {
+  notify(notification: Notification, callback?: NotificationCallback): void;
+}
+
+/**
+ * Writes notifications to stdout. Nobody can click their actions, so callbacks are
+ * answered straight away without one.
+ */
+export class ConsoleNotifier implements Notifier {
+  notify(notification: Notification, callback?: NotificationCallback) {
+    console.log(`[notification] ${notification.title}: ${notification.message}`);
+    callback?.(null, 'closed', {});
+  }
+}
+
+export function createNotifier(env: NodeJS.ProcessEnv = process.env): Notifier {
+  if (env[NOTIFIER_ENV] === 'console') {
+    return new ConsoleNotifier();
+  }
+
+  return new NotificationCenter() as Notifier;
+}
@@ -0,0 +1,184 @@
+import { AxiosInstance } from 'axios';
+import {
+  claimOutboxOperation,
+  completeOutboxOperation,
+  failOutboxOperation,
+  getNextOutboxOperation,
+  getPendingOutboxOperations,
+  OutboxOperation,
+  rescheduleOutboxOperation,
+} from './db.js';
+import { AuthError, HttpError, OfflineError, RateLimitError, ServerError } from './http-errors.js';
+import { parseClockifyResponse, TimeEntrySchema, UserSchema } from './clockify-models.js';
+import { z } from 'zod';
+
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+export interface ReplayOptions {
+  // Ignore the backoff schedule, e.g. when the user explicitly runs a command.
+  force?: boolean;
+}
+
+export interface ReplayResult {
+  synced: number;
+  failed: number;
+  // True when the queue was left non-empty because Clockify is still unreachable.
+  blocked: boolean;
+}
+
+/**
+ * Network errors, rate limiting and server errors are worth retrying; any other
+ * 4xx means Clockify rejected the request and replaying it will not help.
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof OfflineError || error instanceof RateLimitError || error instanceof ServerError;
+}
+
+export function getBackoffDelay(attempts: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** attempts, MAX_BACKOFF_MS);
+  // Add up to 20% jitter so the daemon and the CLI don't retry in lockstep.
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * A create that got no answer may have reached Clockify anyway, e.g. when the response
+ * timed out. Returns the entry it created, matched by its start, project and description,
+ * so replaying it doesn't add a duplicate.
+ */
+async function findCreatedEntry(httpClient: AxiosInstance, operation: OutboxOperation) {
+  const workspaceId = operation.url.match(/^\/workspaces\/([^/]+)\/time-entries$/)?.[1];
+  const body = operation.body ? JSON.parse(operation.body) : null;
+  if (operation.method !== 'POST' || !workspaceId || !body?.start) {
+    return null;
+  }
+
+  const user = parseClockifyResponse(UserSchema, (await httpClient.get('/user')).data, 'GET /user');
+  const start = new Date(body.start);
+  const url = `/workspaces/${workspaceId}/user/${user.id}/time-entries`;
+  const response = await httpClient.get(url, {
+    params: { start: start.toISOString(), end: new Date(start.getTime() + 1000).toISOString() },
+  });
+  const entries = parseClockifyResponse(z.array(TimeEntrySchema), response.data, `GET ${url}`);
+
+  return (
+    entries.find(
+      (entry) =>
+        new Date(entry.timeInterval.start).getTime() === start.getTime() &&
+        entry.projectId === body.projectId &&
+        entry.description === (body.description ?? ''),
+    ) ?? null
+  );
+}
+
+function rescheduleWithBackoff(operation: OutboxOperation, error: unknown) {
+  const nextAttemptAt = new Date(Date.now() + getBackoffDelay(operation.attempts)).toISOString();
+  rescheduleOutboxOperation(operation.id, nextAttemptAt, describeError(error));
+}
+
+/**
+ * Fails the stops queued after a start Clockify rejected, up to the next start in the same
+ * workspace. Replayed, they would end whatever other timer is running there. Returns how many
+ * it failed.
+ */
+function failStopsOfStart(start: OutboxOperation, error: string): number {
+  const workspaceUrl = start.url.replace(/time-entries$/, '');
+  let failed = 0;
+
+  for (const operation of getPendingOutboxOperations()) {
+    if (operation.id <= start.id || !operation.url.startsWith(workspaceUrl)) {
+      continue;
+    }
+    if (operation.operation === 'start') {
+      break;
+    }
+    if (operation.operation === 'stop') {
+      failOutboxOperation(operation.id, `The start it belongs to failed: ${error}`);
+      failed++;
+    }
+  }
+
+  return failed;
+}
+
+/**
+ * Pushes queued Clockify operations in the order they were recorded. Replay stops at
+ * the first operation that cannot be delivered yet, so a stop is never sent before
+ * the start it belongs to, and a start Clockify rejects takes its stop down with it.
+ * Throws, leaving the queue as it is, when Clockify rejects the API key or the
+ * credentials can't be read.
+ */
+export async function replayOutbox(httpClient: AxiosInstance, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, failed: 0, blocked: false };
+
+  for (;;) {
+    const operation = getNextOutboxOperation();
+    if (!operation) {
+      return result;
+    }
+
+    if (!options.force && new Date(operation.nextAttemptAt).getTime() > Date.now()) {
+      result.blocked = true;
+      return result;
+    }
+
+    if (!claimOutboxOperation(operation.id)) {
+      // Another process is sending it right now; let that process carry on with the queue.
+      result.blocked = true;
+      return result;
+    }
+
+    // Sent before without an answer, or claimed by a process that died mid-request.
+    if (operation.attempts > 0 || operation.claimedAt) {
+      let created = null;
+      try {
+        created = await findCreatedEntry(httpClient, operation);
+      } catch (error: unknown) {
+        if (isRetryableError(error)) {
+          rescheduleWithBackoff(operation, error);
+          result.blocked = true;
+          return result;
+        }
+        // Couldn't check, e.g. the lookup was rejected. Sending it again risks a duplicate,
+        // while failing it would lose the entry.
+      }
+
+      if (created) {
+        completeOutboxOperation(operation.id, created);
+        result.synced++;
+        continue;
+      }
+    }
+
+    try {
+      const response = await httpClient.request({
+        method: operation.method,
+        url: operation.url,
+        data: operation.body ? JSON.parse(operation.body) : undefined,
+      });
+      completeOutboxOperation(operation.id, response.data);
+      result.synced++;
+    } catch (error: unknown) {
+      if (error instanceof AuthError || !(error instanceof HttpError)) {
+        // The request itself is fine; it can be sent once the credentials are sorted out.
+        rescheduleOutboxOperation(operation.id, operation.nextAttemptAt, describeError(error));
+        throw error;
+      }
+      if (isRetryableError(error)) {
+        rescheduleWithBackoff(operation, error);
+        result.blocked = true;
+        return result;
+      }
+
+      failOutboxOperation(operation.id, describeError(error));
+      result.failed++;
+      if (operation.operation === 'start') {
+        result.failed += failStopsOfStart(operation, describeError(error));
+      }
+    }
+  }
+}
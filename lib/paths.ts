@@ -0,0 +1,15 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Set to keep everything Clocktopus stores somewhere else, e.g. for a run against the fake services.
+const DATA_DIR_ENV = 'CLOCKTOPUS_DATA_DIR';
+
+export const DATA_DIR = process.env[DATA_DIR_ENV] || path.join(__dirname, '../../data');
+
+export const MONITOR_CONFIG_PATH = path.join(DATA_DIR, 'monitor.json');
+export const STATUS_STATE_PATH = path.join(DATA_DIR, 'state.json');
+export const JIRA_CONFIG_PATH = path.join(DATA_DIR, 'jira.json');
+export const CALENDAR_CONFIG_PATH = path.join(DATA_DIR, 'calendar.json');
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import { PollingSource, PresenceEvent, PresenceListener, PresenceSource } from './source.js';
+
+/**
+ * A source driven by hand, for exercising the monitor without a desktop session.
+ */
+export class FakePresenceSource implements PresenceSource {
+  readonly name = 'fake';
+  private listener: PresenceListener | null = null;
+
+  async start(listener: PresenceListener) {
+    this.listener = listener;
+  }
+
+  stop() {
+    this.listener = null;
+  }
+
+  emit(event: PresenceEvent) {
+    this.listener?.(event);
+  }
+}
+
+/**
+ * Reads presence from a file, so scripts can play the user from outside the monitor:
+ * `locked` while the screen is locked, otherwise the idle time in seconds. A missing
+ * or empty file means the user is active.
+ */
+export class FilePresenceSource extends PollingSource {
+  readonly name = 'file';
+  private locked = false;
+
+  constructor(
+    private readonly filePath: string,
+    intervalMs = 5000,
+  ) {
+    super(intervalMs);
+  }
+
+  protected async poll(listener: PresenceListener) {
+    const contents = await fs.promises.readFile(this.filePath, 'utf8').catch(() => '');
+    const value = contents.trim();
+
+    if (value === 'locked') {
+      if (!this.locked) listener({ type: 'locked' });
+      this.locked = true;
+      return;
+    }
+    if (this.locked) {
+      this.locked = false;
+      listener({ type: 'unlocked' });
+    }
+
+    const idleSeconds = parseFloat(value || '0');
+    if (!isNaN(idleSeconds)) {
+      listener({ type: 'idle', idleSeconds });
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { PollingSource, PresenceListener, runCommand } from './source.js';
+
+/**
+ * Idle time from the `desktop-idle` native module (macOS, Windows and X11).
+ */
+export class DesktopIdleSource extends PollingSource {
+  readonly name = 'desktop-idle';
+
+  constructor(intervalMs = 5000) {
+    super(intervalMs);
+  }
+
+  protected async poll(listener: PresenceListener) {
+    const idleModule = await import('desktop-idle');
+    listener({ type: 'idle', idleSeconds: idleModule.default.getIdleTime() });
+  }
+}
+
+/**
+ * Idle time from an external command that prints milliseconds, such as `xprintidle`
+ * on X11 or Mutter's IdleMonitor on GNOME Wayland.
+ */
+export class CommandIdleSource extends PollingSource {
+  constructor(
+    readonly name: string,
+    private readonly command: string,
+    private readonly args: string[],
+    intervalMs = 5000,
+  ) {
+    super(intervalMs);
+  }
+
+  protected async poll(listener: PresenceListener) {
+    const output = await runCommand(this.command, this.args);
+    // xprintidle prints `12345`; gdbus prints `(uint64 12345,)`.
+    const match = output.match(/(\d+)/);
+    if (match) {
+      listener({ type: 'idle', idleSeconds: parseInt(match[1], 10) / 1000 });
+    }
+  }
+}
+
+export function xprintidleSource(intervalMs?: number) {
+  return new CommandIdleSource('xprintidle', 'xprintidle', [], intervalMs);
+}
+
+export function mutterIdleSource(intervalMs?: number) {
+  return new CommandIdleSource(
+    'mutter-idle',
+    'gdbus',
+    [
+      'call',
+      '--session',
+      '--dest',
+      'org.gnome.Mutter.IdleMonitor',
+      '--object-path',
+      '/org/gnome/Mutter/IdleMonitor/Core',
+      '--method',
+      'org.gnome.Mutter.IdleMonitor.GetIdletime',
+    ],
+    intervalMs,
+  );
+}
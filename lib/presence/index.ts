@@ -0,0 +1,71 @@
+import { FilePresenceSource } from './fake.js';
+import { DesktopIdleSource, mutterIdleSource, xprintidleSource } from './idle.js';
+import { LogindSource, ScreenSaverSource } from './linux.js';
+import { MacLockSource } from './macos.js';
+import { PresenceSource } from './source.js';
+
+export { FakePresenceSource, FilePresenceSource } from './fake.js';
+export type { PresenceEvent, PresenceListener, PresenceSource } from './source.js';
+
+export interface PollIntervals {
+  lockPollIntervalMs: number;
+  idlePollIntervalMs: number;
+}
+
+const DEFAULT_INTERVALS: PollIntervals = { lockPollIntervalMs: 3000, idlePollIntervalMs: 5000 };
+
+// The file the `file` source reads; see FilePresenceSource.
+const PRESENCE_FILE_ENV = 'CLOCKTOPUS_PRESENCE_FILE';
+
+const SOURCE_FACTORIES: Record<string, (intervals: PollIntervals, env: NodeJS.ProcessEnv) => PresenceSource> = {
+  'macos-lock': ({ lockPollIntervalMs }) => new MacLockSource(lockPollIntervalMs),
+  'desktop-idle': ({ idlePollIntervalMs }) => new DesktopIdleSource(idlePollIntervalMs),
+  logind: ({ lockPollIntervalMs }) => new LogindSource(undefined, lockPollIntervalMs),
+  screensaver: () => new ScreenSaverSource(),
+  xprintidle: ({ idlePollIntervalMs }) => xprintidleSource(idlePollIntervalMs),
+  'mutter-idle': ({ idlePollIntervalMs }) => mutterIdleSource(idlePollIntervalMs),
+  file: ({ idlePollIntervalMs }, env) => {
+    const filePath = env[PRESENCE_FILE_ENV];
+    if (!filePath) {
+      throw new Error(`Set ${PRESENCE_FILE_ENV} to the file the "file" presence source reads.`);
+    }
+    return new FilePresenceSource(filePath, idlePollIntervalMs);
+  },
+};
+
+export const PRESENCE_SOURCE_NAMES = Object.keys(SOURCE_FACTORIES);
+
+/**
+ * Picks sensible presence backends for the current platform. `PRESENCE_SOURCES`
+ * (a comma-separated list of backend names) overrides the choice.
+ */
+export function createPresenceSources(
+  platform: NodeJS.Platform = process.platform,
+  env: NodeJS.ProcessEnv = process.env,
+  intervals: PollIntervals = DEFAULT_INTERVALS,
+): PresenceSource[] {
+  const create = (name: string) => SOURCE_FACTORIES[name](intervals, env);
+
+  const override = env.PRESENCE_SOURCES?.split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  if (override?.length) {
+    const unknown = override.filter((name) => !SOURCE_FACTORIES[name]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown presence source(s): ${unknown.join(', ')}. Use: ${PRESENCE_SOURCE_NAMES.join(', ')}`);
+    }
+    return override.map(create);
+  }
+
+  if (platform === 'darwin') {
+    return ['macos-lock', 'desktop-idle'].map(create);
+  }
+
+  if (platform === 'linux') {
+    // desktop-idle only understands X11; Wayland sessions need the compositor's idle monitor.
+    return ['logind', 'screensaver', env.WAYLAND_DISPLAY ? 'mutter-idle' : 'desktop-idle'].map(create);
+  }
+
+  return [create('desktop-idle')];
+}
@@ -0,0 +1,92 @@
+import { ChildProcess } from 'child_process';
+import { PollingSource, PresenceListener, PresenceSource, runCommand, watchCommand } from './source.js';
+
+/**
+ * systemd-logind: polls the session's `LockedHint` and listens for the manager's
+ * `PrepareForSleep` signal on the system bus. Works on both X11 and Wayland as long
+ * as the desktop reports locks to logind (GNOME, KDE, most lockers via `loginctl lock-session`).
+ */
+export class LogindSource extends PollingSource {
+  readonly name = 'logind';
+  private isLocked = false;
+  private sleepWatcher: ChildProcess | null = null;
+
+  constructor(
+    private readonly sessionId = process.env.XDG_SESSION_ID || 'auto',
+    intervalMs = 3000,
+  ) {
+    super(intervalMs);
+  }
+
+  async start(listener: PresenceListener) {
+    this.sleepWatcher = await watchCommand(
+      'gdbus',
+      ['monitor', '--system', '--dest', 'org.freedesktop.login1', '--object-path', '/org/freedesktop/login1'],
+      (line) => {
+        // e.g. `/org/freedesktop/login1: org.freedesktop.login1.Manager.PrepareForSleep (true,)`
+        const match = line.match(/\.PrepareForSleep \((true|false),\)/);
+        if (match) {
+          listener({ type: match[1] === 'true' ? 'sleep' : 'wake' });
+        }
+      },
+    );
+
+    try {
+      await super.start(listener);
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  stop() {
+    super.stop();
+    this.sleepWatcher?.kill();
+    this.sleepWatcher = null;
+  }
+
+  protected async poll(listener: PresenceListener) {
+    const output = await runCommand('loginctl', ['show-session', this.sessionId, '-p', 'LockedHint', '--value']);
+    const locked = output === 'yes';
+
+    if (locked !== this.isLocked) {
+      this.isLocked = locked;
+      listener({ type: locked ? 'locked' : 'unlocked' });
+    }
+  }
+}
+
+/**
+ * Screensaver `ActiveChanged` signals on the session bus, for desktops that don't
+ * report locks to logind.
+ */
+export class ScreenSaverSource implements PresenceSource {
+  readonly name = 'screensaver';
+  private watchers: ChildProcess[] = [];
+
+  constructor(private readonly services = ['org.freedesktop.ScreenSaver', 'org.gnome.ScreenSaver']) {}
+
+  async start(listener: PresenceListener) {
+    for (const service of this.services) {
+      try {
+        this.watchers.push(
+          await watchCommand('gdbus', ['monitor', '--session', '--dest', service], (line) => {
+            // e.g. `/org/gnome/ScreenSaver: org.gnome.ScreenSaver.ActiveChanged (true,)`
+            const match = line.match(/\.ActiveChanged \((true|false),\)/);
+            if (match) {
+              listener({ type: match[1] === 'true' ? 'locked' : 'unlocked' });
+            }
+          }),
+        );
+      } catch (error) {
+        this.stop();
+        throw error;
+      }
+    }
+  }
+
+  stop() {
+    for (const watcher of this.watchers) watcher.kill();
+    this.watchers = [];
+  }
+}
@@ -0,0 +1,34 @@
+import { PollingSource, PresenceListener } from './source.js';
+
+/**
+ * Screen lock state on macOS, polled through `macos-notification-state`.
+ */
+export class MacLockSource extends PollingSource {
+  readonly name = 'macos-lock';
+  private getSessionState: (() => string) | null = null;
+  private isLocked = false;
+
+  constructor(intervalMs = 3000) {
+    super(intervalMs);
+  }
+
+  async start(listener: PresenceListener) {
+    const nsModule = await import('macos-notification-state');
+    this.getSessionState = nsModule.default?.getSessionState || nsModule.getSessionState;
+
+    if (!this.getSessionState) {
+      throw new Error('getSessionState not found in module');
+    }
+
+    await super.start(listener);
+  }
+
+  protected async poll(listener: PresenceListener) {
+    const locked = this.getSessionState!() === 'SESSION_SCREEN_IS_LOCKED';
+
+    if (locked !== this.isLocked) {
+      this.isLocked = locked;
+      listener({ type: locked ? 'locked' : 'unlocked' });
+    }
+  }
+}
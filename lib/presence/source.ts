@@ -0,0 +1,100 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as readline from 'readline';
+
+export type PresenceEvent =
+  // The screen was locked or the screensaver kicked in.
+  | { type: 'locked' }
+  | { type: 'unlocked' }
+  // The machine is about to suspend, or has just woken up.
+  | { type: 'sleep' }
+  | { type: 'wake' }
+  // A periodic sample of how long the user has been idle.
+  | { type: 'idle'; idleSeconds: number };
+
+export type PresenceListener = (event: PresenceEvent) => void;
+
+/**
+ * Something that can tell the monitor whether anyone is at the keyboard. Backends
+ * either poll (idle time, lock state) or listen for signals, and report what they
+ * see as events; the monitor decides what to do with them.
+ */
+export interface PresenceSource {
+  readonly name: string;
+  start(listener: PresenceListener): Promise<void>;
+  stop(): void;
+}
+
+/**
+ * Base class for backends that sample a value on an interval.
+ */
+export abstract class PollingSource implements PresenceSource {
+  abstract readonly name: string;
+  private interval: NodeJS.Timeout | null = null;
+  private isFailing = false;
+
+  constructor(private readonly intervalMs: number) {}
+
+  protected abstract poll(listener: PresenceListener): Promise<void>;
+
+  /**
+   * Polls once straight away, so a backend that can't work here (e.g. a missing command)
+   * fails to start instead of silently reporting nothing.
+   */
+  async start(listener: PresenceListener) {
+    await this.poll(listener);
+
+    this.interval = setInterval(async () => {
+      try {
+        await this.poll(listener);
+        this.isFailing = false;
+      } catch (error) {
+        // Polls can fail now and then, e.g. racing a wake-up; report the first of a run only.
+        if (!this.isFailing) {
+          console.error(`[presence] ${this.name} failed to poll:`, error instanceof Error ? error.message : error);
+        }
+        this.isFailing = true;
+      }
+    }, this.intervalMs);
+  }
+
+  stop() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+  }
+}
+
+/**
+ * Runs a long-lived command (e.g. `gdbus monitor`) and hands each output line to `onLine`.
+ * Rejects when the command can't be run, e.g. because it isn't installed.
+ */
+export function watchCommand(command: string, args: string[], onLine: (line: string) => void): Promise<ChildProcess> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+
+    child.on('error', (error) => reject(new Error(`Could not run ${command}: ${error.message}`)));
+    child.on('spawn', () => {
+      readline.createInterface({ input: child.stdout! }).on('line', onLine);
+      resolve(child);
+    });
+  });
+}
+
+/**
+ * Runs a short command and resolves with its trimmed output.
+ */
+export function runCommand(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+    let output = '';
+
+    child.stdout.on('data', (chunk) => (output += chunk));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(output.trim());
+      } else {
+        reject(new Error(`${command} exited with code ${code}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,172 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ClockifyTimeEntry } from '../clockify.js';
+import { completeSession, deleteSession, logSessionStart, Session } from './db.js';
+import { currentTime } from './time.js';
+import { getSessionDetails, TimerContext } from './timer.js';
+
+// Clockify stores times with second precision, so allow a little slack when matching.
+export const DEFAULT_TOLERANCE_SECONDS = 60;
+
+export type DriftIssue =
+  // A local session that never made it to Clockify (or was deleted there).
+  | { type: 'local-only'; session: Session }
+  // A Clockify entry with no local session, e.g. started from the web UI.
+  | { type: 'remote-only'; entry: ClockifyTimeEntry }
+  // Both sides exist but disagree on when the entry ended.
+  | { type: 'duration-mismatch'; session: Session; entry: ClockifyTimeEntry }
+  // The local session is still open although the Clockify entry was stopped.
+  | { type: 'open-local'; session: Session; entry: ClockifyTimeEntry }
+  // The Clockify entry is still running although the local session was completed.
+  | { type: 'open-remote'; session: Session; entry: ClockifyTimeEntry };
+
+function secondsBetween(a: string, b: string) {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 1000;
+}
+
+/**
+ * Pairs local sessions with Clockify entries by project and start time, then reports
+ * every pair (or lone side) that disagrees.
+ */
+export function findDrift(
+  sessions: Session[],
+  entries: ClockifyTimeEntry[],
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+  const unmatchedEntries = [...entries];
+
+  for (const session of sessions) {
+    const index = unmatchedEntries.findIndex(
+      (entry) =>
+        entry.projectId === session.projectId &&
+        secondsBetween(entry.timeInterval.start, session.startedAt) <= toleranceSeconds,
+    );
+
+    if (index === -1) {
+      issues.push({ type: 'local-only', session });
+      continue;
+    }
+
+    const [entry] = unmatchedEntries.splice(index, 1);
+    const remoteEnd = entry.timeInterval.end;
+
+    if (!session.completedAt && remoteEnd) {
+      issues.push({ type: 'open-local', session, entry });
+    } else if (session.completedAt && !remoteEnd) {
+      issues.push({ type: 'open-remote', session, entry });
+    } else if (session.completedAt && remoteEnd && secondsBetween(session.completedAt, remoteEnd) > toleranceSeconds) {
+      issues.push({ type: 'duration-mismatch', session, entry });
+    }
+  }
+
+  for (const entry of unmatchedEntries) {
+    issues.push({ type: 'remote-only', entry });
+  }
+
+  return issues;
+}
+
+export interface DriftFix {
+  name: string;
+  apply: () => Promise<unknown>;
+}
+
+/**
+ * The ways `clock sync` offers to settle an issue, either side winning.
+ */
+export function getDriftFixes({ clockify, workspaceId }: TimerContext, issue: DriftIssue): DriftFix[] {
+  const fixes: DriftFix[] = [];
+  switch (issue.type) {
+    case 'local-only':
+      if (issue.session.completedAt) {
+        const completedAt = issue.session.completedAt;
+        fixes.push({
+          name: 'Create it in Clockify',
+          apply: () =>
+            clockify.logTime(
+              workspaceId,
+              issue.session.projectId,
+              issue.session.startedAt,
+              completedAt,
+              issue.session.description,
+              getSessionDetails(issue.session),
+            ),
+        });
+      } else {
+        fixes.push({
+          name: 'Complete the local session now',
+          apply: async () => completeSession(issue.session.id, currentTime().toISOString()),
+        });
+      }
+      fixes.push({ name: 'Delete the local session', apply: async () => deleteSession(issue.session.id) });
+      break;
+    case 'remote-only':
+      if (issue.entry.projectId) {
+        const entryProjectId = issue.entry.projectId;
+        fixes.push({
+          name: 'Import it into the local database',
+          apply: async () => {
+            const sessionId = uuidv4();
+            logSessionStart(
+              sessionId,
+              workspaceId,
+              entryProjectId,
+              issue.entry.description,
+              issue.entry.timeInterval.start,
+              undefined,
+              {
+                taskId: issue.entry.taskId ?? undefined,
+                tagIds: issue.entry.tagIds ?? [],
+                billable: issue.entry.billable,
+              },
+            );
+            completeSession(sessionId, issue.entry.timeInterval.end);
+          },
+        });
+      }
+      fixes.push({
+        name: 'Delete it from Clockify',
+        apply: () => clockify.deleteTimeEntry(workspaceId, issue.entry.id),
+      });
+      break;
+    case 'duration-mismatch':
+      fixes.push(
+        {
+          name: 'Use the Clockify end time locally',
+          apply: async () =>
+            completeSession(issue.session.id, issue.entry.timeInterval.end, !!issue.session.isAutoCompleted),
+        },
+        {
+          name: 'Use the local end time in Clockify',
+          apply: () => clockify.updateTimeEntry(workspaceId, issue.entry, { end: issue.session.completedAt }),
+        },
+      );
+      break;
+    case 'open-local':
+      fixes.push(
+        {
+          name: 'Complete the local session at the Clockify end time',
+          apply: async () => completeSession(issue.session.id, issue.entry.timeInterval.end),
+        },
+        {
+          name: 'Resume the entry in Clockify',
+          apply: () => clockify.updateTimeEntry(workspaceId, issue.entry, { end: null }),
+        },
+      );
+      break;
+    case 'open-remote':
+      fixes.push(
+        {
+          name: 'Stop the Clockify entry at the local end time',
+          apply: () => clockify.updateTimeEntry(workspaceId, issue.entry, { end: issue.session.completedAt }),
+        },
+        {
+          name: 'Reopen the local session',
+          apply: async () => completeSession(issue.session.id, null),
+        },
+      );
+      break;
+  }
+
+  return fixes;
+}
@@ -0,0 +1,190 @@
+import chalk from 'chalk';
+import { Session } from './db.js';
+import { currentTime } from './time.js';
+
+export const REPORT_GROUPS = ['day', 'week', 'project', 'ticket'] as const;
+export type ReportGroup = (typeof REPORT_GROUPS)[number];
+
+export const REPORT_FORMATS = ['table', 'json', 'csv'] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportRow {
+  keys: Partial<Record<ReportGroup, string>>;
+  sessions: number;
+  totalSeconds: number;
+  autoStoppedSeconds: number;
+  // Idle time cut from auto-stopped sessions (not included in totalSeconds).
+  trimmedSeconds: number;
+}
+
+export interface Report {
+  from: string;
+  to: string;
+  groupBy: ReportGroup[];
+  rows: ReportRow[];
+  totals: Omit<ReportRow, 'keys'>;
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+export function toLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Returns the local Monday of the week the date falls in.
+ */
+export function startOfWeek(date: Date): Date {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+}
+
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  return `${hours}h ${pad(minutes)}m`;
+}
+
+function groupKey(session: Session, group: ReportGroup, projectNames: Map<string, string>): string {
+  const startedAt = new Date(session.startedAt);
+
+  switch (group) {
+    case 'day':
+      return toLocalDate(startedAt);
+    case 'week':
+      return toLocalDate(startOfWeek(startedAt));
+    case 'project':
+      return projectNames.get(session.projectId) ?? session.projectId;
+    case 'ticket':
+      return session.jiraTicket ?? '-';
+  }
+}
+
+/**
+ * Aggregates local sessions into one row per combination of the requested groups.
+ * Sessions that are still running are counted up to `now`.
+ */
+export function buildReport(
+  sessions: Session[],
+  options: {
+    from: string;
+    to: string;
+    groupBy: ReportGroup[];
+    projectNames: Map<string, string>;
+    trimmedSeconds?: Map<string, number>;
+    now?: Date;
+  },
+): Report {
+  const now = options.now ?? currentTime();
+  const rows = new Map<string, ReportRow>();
+  const totals = { sessions: 0, totalSeconds: 0, autoStoppedSeconds: 0, trimmedSeconds: 0 };
+
+  for (const session of sessions) {
+    const end = session.completedAt ? new Date(session.completedAt) : now;
+    const seconds = Math.max(0, Math.round((end.getTime() - new Date(session.startedAt).getTime()) / 1000));
+    const autoStoppedSeconds = session.isAutoCompleted ? seconds : 0;
+    const trimmedSeconds = options.trimmedSeconds?.get(session.id) ?? 0;
+
+    const keys = Object.fromEntries(
+      options.groupBy.map((group) => [group, groupKey(session, group, options.projectNames)]),
+    ) as ReportRow['keys'];
+    const id = options.groupBy.map((group) => keys[group]).join('\u0000');
+
+    const row = rows.get(id) ?? { keys, sessions: 0, totalSeconds: 0, autoStoppedSeconds: 0, trimmedSeconds: 0 };
+    row.sessions++;
+    row.totalSeconds += seconds;
+    row.autoStoppedSeconds += autoStoppedSeconds;
+    row.trimmedSeconds += trimmedSeconds;
+    rows.set(id, row);
+
+    totals.sessions++;
+    totals.totalSeconds += seconds;
+    totals.autoStoppedSeconds += autoStoppedSeconds;
+    totals.trimmedSeconds += trimmedSeconds;
+  }
+
+  const sortedRows = [...rows.values()].sort((a, b) => {
+    for (const group of options.groupBy) {
+      const compared = (a.keys[group] ?? '').localeCompare(b.keys[group] ?? '');
+      if (compared !== 0) return compared;
+    }
+    return 0;
+  });
+
+  return { from: options.from, to: options.to, groupBy: options.groupBy, rows: sortedRows, totals };
+}
+
+function renderTable(report: Report): string {
+  const header = [
+    ...report.groupBy.map((group) => group.toUpperCase()),
+    'SESSIONS',
+    'TOTAL',
+    'AUTO-STOPPED',
+    'IDLE TRIMMED',
+  ];
+  const body = report.rows.map((row) => [
+    ...report.groupBy.map((group) => row.keys[group] ?? ''),
+    String(row.sessions),
+    formatDuration(row.totalSeconds),
+    formatDuration(row.autoStoppedSeconds),
+    formatDuration(row.trimmedSeconds),
+  ]);
+  const footer = [
+    'TOTAL',
+    ...report.groupBy.slice(1).map(() => ''),
+    String(report.totals.sessions),
+    formatDuration(report.totals.totalSeconds),
+    formatDuration(report.totals.autoStoppedSeconds),
+    formatDuration(report.totals.trimmedSeconds),
+  ];
+
+  const widths = header.map((_, index) => Math.max(...[header, ...body, footer].map((cells) => cells[index].length)));
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, index) => cell.padEnd(widths[index]))
+      .join('  ')
+      .trimEnd();
+  const separator = widths.map((width) => '-'.repeat(width)).join('  ');
+
+  return [
+    chalk.bold(`Report for ${report.from} to ${report.to}`),
+    '',
+    chalk.bold(line(header)),
+    separator,
+    ...body.map(line),
+    separator,
+    chalk.bold(line(footer)),
+  ].join('\n');
+}
+
+function csvCell(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderCsv(report: Report): string {
+  const header = [...report.groupBy, 'sessions', 'totalSeconds', 'totalHours', 'autoStoppedSeconds', 'trimmedSeconds'];
+  const rows = report.rows.map((row) => [
+    ...report.groupBy.map((group) => row.keys[group] ?? ''),
+    String(row.sessions),
+    String(row.totalSeconds),
+    (row.totalSeconds / 3600).toFixed(2),
+    String(row.autoStoppedSeconds),
+    String(row.trimmedSeconds),
+  ]);
+
+  return [header, ...rows].map((cells) => cells.map(csvCell).join(',')).join('\n');
+}
+
+export function renderReport(report: Report, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'csv':
+      return renderCsv(report);
+    case 'table':
+      return renderTable(report);
+  }
+}
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+import { Session } from './db.js';
+import { formatDuration } from './report.js';
+import { currentTime } from './time.js';
+
+const StatusStateSchema = z.object({
+  running: z.boolean(),
+  // True when the last entry was stopped by the monitor (idle, lock or sleep).
+  autoStopped: z.boolean(),
+  projectId: z.string().nullable(),
+  projectName: z.string().nullable(),
+  description: z.string().nullable(),
+  jiraTicket: z.string().nullable(),
+  startedAt: z.string().nullable(),
+  completedAt: z.string().nullable(),
+  updatedAt: z.string(),
+});
+
+export type StatusState = z.infer<typeof StatusStateSchema>;
+
+export const STATUS_FORMATS = ['text', 'json', 'short', 'waybar', 'i3blocks'] as const;
+export type StatusFormat = (typeof STATUS_FORMATS)[number];
+
+/**
+ * Derives the status from the local sessions: the open session if there is one,
+ * otherwise the most recent one.
+ */
+export function buildStatusState(
+  openSession: Session | null,
+  latestSession: Session | null,
+  projectNames: Map<string, string>,
+): StatusState {
+  const session = openSession ?? latestSession;
+
+  return {
+    running: !!openSession,
+    autoStopped: !openSession && !!latestSession?.isAutoCompleted,
+    projectId: session?.projectId ?? null,
+    projectName: session ? (projectNames.get(session.projectId) ?? null) : null,
+    description: session?.description ?? null,
+    jiraTicket: session?.jiraTicket ?? null,
+    startedAt: session?.startedAt ?? null,
+    completedAt: session?.completedAt ?? null,
+    updatedAt: currentTime().toISOString(),
+  };
+}
+
+export function writeStatusState(statePath: string, state: StatusState) {
+  // Write then rename, so readers polling the file never see it half-written.
+  const tempPath = `${statePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(state, null, 2), 'utf8');
+  fs.renameSync(tempPath, statePath);
+}
+
+export function readStatusState(statePath: string): StatusState | null {
+  try {
+    return StatusStateSchema.parse(JSON.parse(fs.readFileSync(statePath, 'utf8')));
+  } catch {
+    return null;
+  }
+}
+
+function elapsedSeconds(state: StatusState, now: Date) {
+  return state.running && state.startedAt
+    ? Math.max(0, Math.round((now.getTime() - new Date(state.startedAt).getTime()) / 1000))
+    : 0;
+}
+
+/**
+ * Renders the cached status for shell prompts and status bars. `text` is left to the
+ * caller, which asks Clockify directly.
+ */
+export function renderStatus(state: StatusState | null, format: Exclude<StatusFormat, 'text'>, now = currentTime()) {
+  const label = state ? [state.jiraTicket, state.projectName ?? state.projectId].filter(Boolean).join(' ') : '';
+  const elapsed = state ? formatDuration(elapsedSeconds(state, now)) : '';
+  const className = !state ? 'stopped' : state.running ? 'running' : state.autoStopped ? 'auto-stopped' : 'stopped';
+  const text = state?.running ? `⏱ ${elapsed} ${label}` : state?.autoStopped ? `⏸ ${label}` : '';
+  const tooltip = state?.description ?? '';
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ ...state, elapsedSeconds: state ? elapsedSeconds(state, now) : 0, state: className });
+    case 'short':
+      return text;
+    case 'waybar':
+      return JSON.stringify({ text, tooltip, class: className, alt: className });
+    case 'i3blocks': {
+      const color = className === 'running' ? '#50FA7B' : className === 'auto-stopped' ? '#F1FA8C' : '#6272A4';
+      return [text, state?.running ? `⏱ ${elapsed}` : text, color].join('\n');
+    }
+  }
+}
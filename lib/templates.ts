@@ -0,0 +1,10 @@
+import { Template } from './db.js';
+import { findMatches } from './fuzzy.js';
+
+/**
+ * Finds templates matching a (possibly abbreviated) name, e.g. "stup" → "standup".
+ * Returns every template at the strictest level of match so callers can report ambiguity.
+ */
+export function findTemplates(templates: Template[], query: string): Template[] {
+  return findMatches(templates, query, (template) => template.name);
+}
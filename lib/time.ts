@@ -0,0 +1,95 @@
+const UNIT_SECONDS: Record<string, number> = {
+  h: 3600,
+  m: 60,
+  s: 1,
+};
+
+// An ISO timestamp to run as if it were that moment, e.g. for scripted runs against the fake services.
+const START_TIME_ENV = 'CLOCKTOPUS_NOW';
+
+let clock: (() => Date) | null = null;
+
+function createClock(): () => Date {
+  const startTime = process.env[START_TIME_ENV];
+  if (!startTime) {
+    return () => new Date();
+  }
+
+  const start = new Date(startTime).getTime();
+  if (isNaN(start)) {
+    throw new Error(`${START_TIME_ENV} must be an ISO timestamp, not "${startTime}".`);
+  }
+  // The clock keeps running from there, so the monitor still sees time pass.
+  const offset = start - Date.now();
+  return () => new Date(Date.now() + offset);
+}
+
+/**
+ * The current time, as the clock set with `setClock` (or `CLOCKTOPUS_NOW`) tells it.
+ */
+export function currentTime(): Date {
+  clock ??= createClock();
+  return clock();
+}
+
+/**
+ * Replaces the time source, e.g. with a clock that is moved by hand.
+ */
+export function setClock(source: () => Date) {
+  clock = source;
+}
+
+/**
+ * Parses durations such as `1h30m`, `1.5h`, `45m`, `90s` or a bare number of minutes.
+ * Returns the duration in seconds, or null when the value can't be understood.
+ */
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim().toLowerCase().replace(/\s+/g, '');
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 60);
+  }
+
+  const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)([hms])/g)];
+  if (parts.length === 0 || parts.map((part) => part[0]).join('') !== trimmed) {
+    return null;
+  }
+
+  return Math.round(parts.reduce((total, [, amount, unit]) => total + parseFloat(amount) * UNIT_SECONDS[unit], 0));
+}
+
+/**
+ * Parses a point in time relative to `now`: `now`, `5m ago`, a time of day (`09:00`,
+ * placed on `day` or today), `YYYY-MM-DD HH:mm`, or any ISO timestamp.
+ */
+export function parseMoment(value: string, options: { now?: Date; day?: string } = {}): Date | null {
+  const now = options.now ?? currentTime();
+  const trimmed = value.trim().toLowerCase();
+
+  if (trimmed === 'now') {
+    return new Date(now);
+  }
+
+  const ago = trimmed.match(/^(.+?)\s*ago$/);
+  if (ago) {
+    const seconds = parseDuration(ago[1]);
+    return seconds === null ? null : new Date(now.getTime() - seconds * 1000);
+  }
+
+  const timeOfDay = trimmed.match(/^(\d{1,2}):(\d{2})$/);
+  if (timeOfDay) {
+    const date = options.day ? new Date(`${options.day}T00:00:00`) : new Date(now);
+    date.setHours(parseInt(timeOfDay[1], 10), parseInt(timeOfDay[2], 10), 0, 0);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d{1,2}:\d{2}$/.test(trimmed) ? trimmed.replace(' ', 'T') : value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * A timestamp's time of day in the local timezone, e.g. `09:30`.
+ */
+export function formatTimeOfDay(dateTime: string): string {
+  return new Date(dateTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
@@ -0,0 +1,156 @@
+import { Clockify } from '../clockify.js';
+import {
+  completeLatestSession,
+  getLatestSession,
+  getOpenSession,
+  getPreviousSession,
+  getSessionsByWorklog,
+  Session,
+  updateSession,
+} from './db.js';
+import { TimeEntryDetails } from './entry-details.js';
+import { NotFoundError, unlessOffline } from './http-errors.js';
+import { stopJiraTimer, updateJiraWorklog } from './jira.js';
+import { DEFAULT_MONITOR_CONFIG, loadMonitorConfig, resolvePolicy } from './monitor-config.js';
+import { MONITOR_CONFIG_PATH } from './paths.js';
+import { currentTime } from './time.js';
+import { getLocalProjects } from './workspace.js';
+
+export interface TimerContext {
+  clockify: Clockify;
+  workspaceId: string;
+  userId: string;
+}
+
+export function getSessionDetails(session: Session): TimeEntryDetails {
+  return {
+    taskId: session.taskId ?? undefined,
+    tagIds: session.tagIds,
+    billable: session.billable === null ? undefined : session.billable === 1,
+  };
+}
+
+/**
+ * Stops the running Clockify timer at `completedAt`, completes the latest local session
+ * and books the segment on its Jira ticket. Returns false when no timer was stopped.
+ */
+export async function stopAndRecord(
+  { clockify, workspaceId, userId }: TimerContext,
+  options: { completedAt?: string; isAutoCompleted?: boolean } = {},
+) {
+  const completedAt = options.completedAt ?? currentTime().toISOString();
+  const latestSession = getLatestSession(workspaceId);
+
+  const stoppedEntry = await clockify.stopTimer(workspaceId, userId, completedAt);
+  if (!stoppedEntry) return false;
+
+  completeLatestSession(workspaceId, completedAt, options.isAutoCompleted);
+
+  // Only the session that was still open belongs to the entry that was just stopped.
+  if (latestSession?.jiraTicket && !latestSession.completedAt) {
+    try {
+      await bookJiraWorklog({ ...latestSession, completedAt });
+    } catch (error) {
+      console.error('Error stopping Jira timer:', error);
+    }
+  }
+
+  return true;
+}
+
+function secondsBetween(start: string, end: string) {
+  return Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000);
+}
+
+/**
+ * The start and total time of a worklog shared by resumed segments.
+ */
+export function getWorklogTotals(jiraWorklogId: string) {
+  const segments = getSessionsByWorklog(jiraWorklogId);
+  return {
+    started: segments[0]?.startedAt,
+    timeSpentSeconds: segments.reduce(
+      (total, segment) => total + (segment.completedAt ? secondsBetween(segment.startedAt, segment.completedAt) : 0),
+      0,
+    ),
+  };
+}
+
+async function getResumeWindowMs(session: Session) {
+  let config = DEFAULT_MONITOR_CONFIG;
+  try {
+    config = loadMonitorConfig(MONITOR_CONFIG_PATH);
+  } catch {
+    // The monitor reports an invalid config; the defaults are good enough here.
+  }
+
+  const projectName = session.workspaceId
+    ? (await getLocalProjects(session.workspaceId)).find((p) => p.id === session.projectId)?.name
+    : undefined;
+  return resolvePolicy(config, session.projectId, projectName).autoResumeWindowMinutes * 60_000;
+}
+
+/**
+ * Books a finished session on its Jira ticket, dated when it started and commented with
+ * its description. A segment that resumes the previous session's ticket within the
+ * auto-resume window extends that session's worklog instead of adding another one.
+ */
+async function bookJiraWorklog(session: Session & { completedAt: string }) {
+  if (!session.jiraTicket) return;
+
+  const previous = getPreviousSession(session);
+  if (
+    previous?.jiraTicket === session.jiraTicket &&
+    previous.jiraWorklogId &&
+    previous.completedAt &&
+    new Date(session.startedAt).getTime() - new Date(previous.completedAt).getTime() <=
+      (await getResumeWindowMs(session))
+  ) {
+    updateSession(session.id, { jiraWorklogId: previous.jiraWorklogId });
+    const { started, timeSpentSeconds } = getWorklogTotals(previous.jiraWorklogId);
+    try {
+      if (
+        await updateJiraWorklog(
+          session.jiraTicket,
+          previous.jiraWorklogId,
+          timeSpentSeconds,
+          started,
+          session.description,
+        )
+      ) {
+        return;
+      }
+    } catch (error) {
+      // The worklog may have been deleted in Jira; book this segment on its own.
+      if (!(error instanceof NotFoundError)) throw error;
+    }
+
+    updateSession(session.id, { jiraWorklogId: null });
+  }
+
+  const timeSpentSeconds = secondsBetween(session.startedAt, session.completedAt);
+  if (timeSpentSeconds < 60) return;
+
+  const worklog = await stopJiraTimer(session.jiraTicket, timeSpentSeconds, session.startedAt, session.description);
+  if (worklog?.id) {
+    updateSession(session.id, { jiraWorklogId: String(worklog.id) });
+  }
+}
+
+/**
+ * Stops whatever is running and starts the next entry with the same timestamp, so there
+ * is no gap or overlap. Returns null, without starting anything, when the running timer
+ * couldn't be stopped.
+ */
+export async function switchTimer(context: TimerContext, projectId: string, description?: string, jiraTicket?: string) {
+  const { clockify, workspaceId, userId } = context;
+  const switchedAt = currentTime().toISOString();
+  // Trust an open local session too: while offline, Clockify can't tell us what's running.
+  const activeEntry = await unlessOffline(clockify.getActiveTimer(workspaceId, userId), null);
+  const isRunning = !!activeEntry || !!getOpenSession(workspaceId);
+  if (isRunning && !(await stopAndRecord(context, { completedAt: switchedAt }))) {
+    return null;
+  }
+
+  return { entry: await clockify.startTimer(workspaceId, projectId, description, jiraTicket, switchedAt) };
+}
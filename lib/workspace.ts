@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { adoptUnscopedRows, getSetting, setSetting } from './db.js';
+import { DATA_DIR } from './paths.js';
+
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+export interface LocalProject {
+  id: string;
+  name: string;
+}
+
+// Where the project list lived before it was kept per workspace.
+const LEGACY_LOCAL_PROJECTS_PATH = path.join(DATA_DIR, 'local-projects.json');
+
+const SELECTED_WORKSPACE_SETTING = 'workspaceId';
+const WORKSPACES_SETTING = 'clockifyWorkspaces';
+
+export function getLocalProjectsPath(workspaceId: string) {
+  return path.join(DATA_DIR, 'workspaces', workspaceId, 'local-projects.json');
+}
+
+export async function getLocalProjects(workspaceId: string): Promise<LocalProject[]> {
+  const localProjectsPath = getLocalProjectsPath(workspaceId);
+  try {
+    // Ensure the workspace directory exists
+    await fs.promises.mkdir(path.dirname(localProjectsPath), { recursive: true });
+    // If the file does not exist, create it with an empty array
+    try {
+      await fs.promises.access(localProjectsPath, fs.constants.F_OK);
+    } catch {
+      await fs.promises.writeFile(localProjectsPath, '[]', 'utf8');
+    }
+    const data = await fs.promises.readFile(localProjectsPath, 'utf8');
+    return JSON.parse(data);
+  } catch (_error: unknown) {
+    return [];
+  }
+}
+
+export function saveLocalProjects(workspaceId: string, projects: LocalProject[]) {
+  const localProjectsPath = getLocalProjectsPath(workspaceId);
+  fs.mkdirSync(path.dirname(localProjectsPath), { recursive: true });
+  fs.writeFileSync(localProjectsPath, JSON.stringify(projects, null, 2), 'utf8');
+}
+
+/**
+ * Moves data recorded before workspaces were tracked (the project list, sessions and
+ * calendar mappings) into the account's default workspace, where it was created.
+ */
+export function adoptLegacyData(defaultWorkspaceId: string) {
+  const localProjectsPath = getLocalProjectsPath(defaultWorkspaceId);
+  if (fs.existsSync(LEGACY_LOCAL_PROJECTS_PATH) && !fs.existsSync(localProjectsPath)) {
+    fs.mkdirSync(path.dirname(localProjectsPath), { recursive: true });
+    fs.renameSync(LEGACY_LOCAL_PROJECTS_PATH, localProjectsPath);
+  }
+
+  adoptUnscopedRows(defaultWorkspaceId);
+}
+
+export function findWorkspace(workspaces: Workspace[], query: string): Workspace | undefined {
+  return workspaces.find((w) => w.id === query || w.name.toLowerCase() === query.toLowerCase());
+}
+
+/**
+ * The workspace chosen with `clock workspace use`, if any.
+ */
+export function getSelectedWorkspaceId(): string | null {
+  return getSetting<string>(SELECTED_WORKSPACE_SETTING);
+}
+
+export function setSelectedWorkspaceId(workspaceId: string) {
+  setSetting(SELECTED_WORKSPACE_SETTING, workspaceId);
+}
+
+/**
+ * The workspaces seen the last time Clockify was reachable, so names still resolve offline.
+ */
+export function getCachedWorkspaces(): Workspace[] {
+  return getSetting<Workspace[]>(WORKSPACES_SETTING) ?? [];
+}
+
+export function cacheWorkspaces(workspaces: Workspace[]) {
+  setSetting(
+    WORKSPACES_SETTING,
+    workspaces.map((w) => ({ id: w.id, name: w.name })),
+  );
+}
+
+/**
+ * Picks the workspace to work in: `requested` (an ID or name, e.g. from `--workspace`),
+ * then the one chosen with `clock workspace use`, then the account's default. Clockify is
+ * only asked for the workspace list when the cached one doesn't know the name. Returns
+ * null when nothing matches.
+ */
+export async function resolveWorkspaceId(
+  defaultWorkspaceId: string,
+  requested: string | undefined,
+  fetchWorkspaces: () => Promise<Workspace[] | null>,
+): Promise<string | null> {
+  const query = requested ?? getSelectedWorkspaceId();
+  if (!query) {
+    return defaultWorkspaceId;
+  }
+
+  const cached = findWorkspace(getCachedWorkspaces(), query);
+  if (cached) {
+    return cached.id;
+  }
+
+  const workspaces = await fetchWorkspaces();
+  if (!workspaces) {
+    // Offline and never seen: assume an ID was given so timers can still be queued.
+    return query;
+  }
+
+  cacheWorkspaces(workspaces);
+  return findWorkspace(workspaces, query)?.id ?? null;
+}
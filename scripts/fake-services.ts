@@ -0,0 +1,492 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Command } from 'commander';
+import { calendar_v3 } from 'googleapis';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ClockifyProject,
+  ClockifyTag,
+  ClockifyTask,
+  ClockifyTimeEntry,
+  ClockifyUser,
+  ClockifyWorkspace,
+} from '../lib/clockify-models.js';
+
+/**
+ * A stand-in for the parts of Clockify, Jira and Google Calendar that Clocktopus uses,
+ * keeping everything in memory. Run it and point `clock` at it with the environment it
+ * prints to try commands, the monitor and calendar logging without touching real data.
+ */
+
+const DEFAULT_PORT = 4389;
+const JIRA_STATUSES = ['To Do', 'In Progress', 'Done'];
+
+interface FakeTimeEntry extends ClockifyTimeEntry {
+  workspaceId: string;
+}
+
+interface FakeJiraIssue {
+  key: string;
+  summary: string;
+  status: string;
+}
+
+interface FakeJiraWorklog {
+  id: string;
+  issueKey: string;
+  started: string;
+  timeSpentSeconds: number;
+  comment?: unknown;
+}
+
+interface FakeCalendar {
+  id: string;
+  summary: string;
+  primary?: boolean;
+  events: calendar_v3.Schema$Event[];
+}
+
+export interface FakeState {
+  user: ClockifyUser;
+  workspaces: ClockifyWorkspace[];
+  // Keyed by workspace ID.
+  projects: Record<string, ClockifyProject[]>;
+  // Keyed by project ID.
+  tasks: Record<string, ClockifyTask[]>;
+  // Keyed by workspace ID.
+  tags: Record<string, ClockifyTag[]>;
+  timeEntries: FakeTimeEntry[];
+  jira: { accountId: string; issues: FakeJiraIssue[]; worklogs: FakeJiraWorklog[] };
+  calendars: FakeCalendar[];
+}
+
+export function createFakeState(seed: Partial<FakeState> = {}): FakeState {
+  return {
+    user: {
+      id: 'user-1',
+      email: 'ada@example.com',
+      name: 'Ada Lovelace',
+      defaultWorkspace: 'workspace-1',
+      activeWorkspace: 'workspace-1',
+    },
+    workspaces: [{ id: 'workspace-1', name: 'Fake Workspace' }],
+    projects: {
+      'workspace-1': [
+        { id: 'project-1', name: 'Development', billable: true, archived: false },
+        { id: 'project-2', name: 'Meetings', billable: false, archived: false },
+      ],
+    },
+    tasks: { 'project-1': [{ id: 'task-1', name: 'Code review', projectId: 'project-1' }] },
+    tags: { 'workspace-1': [{ id: 'tag-1', name: 'support' }] },
+    timeEntries: [],
+    jira: {
+      accountId: 'jira-user-1',
+      issues: [{ key: 'ABC-1', summary: 'Fix the login page', status: 'To Do' }],
+      worklogs: [],
+    },
+    calendars: [{ id: 'primary', summary: 'Ada Lovelace', primary: true, events: [] }],
+    ...seed,
+  };
+}
+
+class FakeResponse {
+  constructor(
+    readonly status: number,
+    readonly body?: unknown,
+  ) {}
+}
+
+const notFound = (message: string) => new FakeResponse(404, { message });
+
+type Handler = (
+  match: RegExpMatchArray,
+  query: URLSearchParams,
+  body: Record<string, unknown>,
+) => FakeResponse | unknown;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  // The header a real request would carry its credentials in.
+  authHeader?: string;
+  handle: Handler;
+}
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const page = parseInt(query.get('page') ?? '1', 10);
+  const pageSize = parseInt(query.get('page-size') ?? '50', 10);
+  return items.slice((page - 1) * pageSize, page * pageSize);
+}
+
+function toClockifyEntry({ workspaceId: _workspaceId, ...entry }: FakeTimeEntry): ClockifyTimeEntry {
+  return entry;
+}
+
+function toJiraIssue(issue: FakeJiraIssue) {
+  return { key: issue.key, fields: { summary: issue.summary, status: { name: issue.status } } };
+}
+
+function toJiraWorklog(state: FakeState, worklog: FakeJiraWorklog) {
+  return { ...worklog, author: { accountId: state.jira.accountId } };
+}
+
+function createRoutes(getState: () => FakeState): Route[] {
+  const clockify = (method: string, pattern: string, handle: Handler): Route => ({
+    method,
+    pattern: new RegExp(`^/clockify/api/v1${pattern}$`),
+    authHeader: 'x-api-key',
+    handle,
+  });
+  const jira = (method: string, pattern: string, handle: Handler): Route => ({
+    method,
+    pattern: new RegExp(`^/jira/rest/api/3${pattern}$`),
+    authHeader: 'authorization',
+    handle,
+  });
+  const google = (method: string, pattern: string, handle: Handler): Route => ({
+    method,
+    // The Google client ignores any path in its root URL, so these routes have no prefix.
+    pattern: new RegExp(`^/calendar/v3${pattern}$`),
+    authHeader: 'authorization',
+    handle,
+  });
+
+  const findEntry = (workspaceId: string, entryId: string) =>
+    getState().timeEntries.find((entry) => entry.workspaceId === workspaceId && entry.id === entryId);
+  const findRunningEntry = (workspaceId: string) =>
+    getState().timeEntries.find((entry) => entry.workspaceId === workspaceId && !entry.timeInterval.end);
+  const findIssue = (key: string) => getState().jira.issues.find((issue) => issue.key === key);
+  const findCalendar = (calendarId: string) =>
+    getState().calendars.find(
+      (calendar) => calendar.id === calendarId || (calendarId === 'primary' && calendar.primary),
+    );
+
+  return [
+    // Clockify
+    clockify('GET', '/user', () => getState().user),
+    clockify('GET', '/workspaces', () => getState().workspaces),
+    clockify('GET', '/workspaces/([\\w-]+)/projects', ([, workspaceId], query) =>
+      paginate(getState().projects[workspaceId] ?? [], query),
+    ),
+    clockify('GET', '/workspaces/([\\w-]+)/projects/([\\w-]+)', ([, workspaceId, projectId]) => {
+      const project = getState().projects[workspaceId]?.find((p) => p.id === projectId);
+      return project ?? notFound('Project not found');
+    }),
+    clockify('GET', '/workspaces/[\\w-]+/projects/([\\w-]+)/tasks', ([, projectId], query) =>
+      paginate(getState().tasks[projectId] ?? [], query),
+    ),
+    clockify('GET', '/workspaces/([\\w-]+)/tags', ([, workspaceId], query) =>
+      paginate(getState().tags[workspaceId] ?? [], query),
+    ),
+    clockify('POST', '/workspaces/([\\w-]+)/time-entries', ([, workspaceId], _query, body) => {
+      const start = String(body.start ?? new Date().toISOString());
+      const end = typeof body.end === 'string' ? body.end : null;
+      // Like Clockify, starting a timer stops the one that is running.
+      const running = end ? undefined : findRunningEntry(workspaceId);
+      if (running) {
+        running.timeInterval.end = start;
+      }
+
+      const entry: FakeTimeEntry = {
+        workspaceId,
+        id: uuidv4(),
+        description: String(body.description ?? ''),
+        projectId: (body.projectId as string | undefined) ?? null,
+        taskId: (body.taskId as string | undefined) ?? null,
+        tagIds: (body.tagIds as string[] | undefined) ?? [],
+        billable: (body.billable as boolean | undefined) ?? false,
+        timeInterval: { start, end },
+      };
+      getState().timeEntries.push(entry);
+      return new FakeResponse(201, toClockifyEntry(entry));
+    }),
+    clockify('PATCH', '/workspaces/([\\w-]+)/user/[\\w-]+/time-entries', ([, workspaceId], _query, body) => {
+      const running = findRunningEntry(workspaceId);
+      if (!running) {
+        return notFound('No running time entry');
+      }
+      running.timeInterval.end = String(body.end);
+      return toClockifyEntry(running);
+    }),
+    clockify('GET', '/workspaces/([\\w-]+)/user/[\\w-]+/time-entries', ([, workspaceId], query) => {
+      const start = query.get('start');
+      const end = query.get('end');
+      const entries = getState()
+        .timeEntries.filter((entry) => entry.workspaceId === workspaceId)
+        .filter((entry) => query.get('in-progress') !== 'true' || !entry.timeInterval.end)
+        .filter((entry) => !start || entry.timeInterval.start >= start)
+        .filter((entry) => !end || entry.timeInterval.start < end)
+        .sort((a, b) => b.timeInterval.start.localeCompare(a.timeInterval.start));
+      return paginate(entries, query).map(toClockifyEntry);
+    }),
+    clockify('GET', '/workspaces/([\\w-]+)/time-entries/([\\w-]+)', ([, workspaceId, entryId]) => {
+      const entry = findEntry(workspaceId, entryId);
+      return entry ? toClockifyEntry(entry) : notFound('Time entry not found');
+    }),
+    clockify('PUT', '/workspaces/([\\w-]+)/time-entries/([\\w-]+)', ([, workspaceId, entryId], _query, body) => {
+      const entry = findEntry(workspaceId, entryId);
+      if (!entry) {
+        return notFound('Time entry not found');
+      }
+      Object.assign(entry, {
+        description: body.description ?? entry.description,
+        projectId: body.projectId ?? entry.projectId,
+        taskId: body.taskId ?? entry.taskId,
+        tagIds: body.tagIds ?? entry.tagIds,
+        billable: body.billable ?? entry.billable,
+        timeInterval: { start: body.start ?? entry.timeInterval.start, end: body.end ?? null },
+      });
+      return toClockifyEntry(entry);
+    }),
+    clockify('DELETE', '/workspaces/([\\w-]+)/time-entries/([\\w-]+)', ([, workspaceId, entryId]) => {
+      const entry = findEntry(workspaceId, entryId);
+      if (!entry) {
+        return notFound('Time entry not found');
+      }
+      getState().timeEntries = getState().timeEntries.filter((other) => other !== entry);
+      return new FakeResponse(204);
+    }),
+
+    // Jira
+    jira('GET', '/myself', () => {
+      const { user, jira } = getState();
+      return { accountId: jira.accountId, displayName: user.name, emailAddress: user.email };
+    }),
+    jira('POST', '/search/jql', () => ({ issues: getState().jira.issues.map(toJiraIssue) })),
+    jira('GET', '/issue/([\\w-]+)', ([, key]) => {
+      const issue = findIssue(key);
+      return issue ? toJiraIssue(issue) : notFound('Issue does not exist');
+    }),
+    jira('GET', '/issue/([\\w-]+)/worklog', ([, key]) => ({
+      worklogs: getState()
+        .jira.worklogs.filter((worklog) => worklog.issueKey === key)
+        .map((worklog) => toJiraWorklog(getState(), worklog)),
+    })),
+    jira('POST', '/issue/([\\w-]+)/worklog', ([, key], _query, body) => {
+      if (!findIssue(key)) {
+        return notFound('Issue does not exist');
+      }
+      const worklog: FakeJiraWorklog = {
+        id: String(10000 + getState().jira.worklogs.length),
+        issueKey: key,
+        started: String(body.started ?? new Date().toISOString()),
+        timeSpentSeconds: Number(body.timeSpentSeconds),
+        comment: body.comment,
+      };
+      getState().jira.worklogs.push(worklog);
+      return new FakeResponse(201, toJiraWorklog(getState(), worklog));
+    }),
+    jira('PUT', '/issue/([\\w-]+)/worklog/(\\d+)', ([, key, worklogId], _query, body) => {
+      const worklog = getState().jira.worklogs.find((w) => w.issueKey === key && w.id === worklogId);
+      if (!worklog) {
+        return notFound('Worklog does not exist');
+      }
+      Object.assign(worklog, {
+        started: body.started ?? worklog.started,
+        timeSpentSeconds: body.timeSpentSeconds ?? worklog.timeSpentSeconds,
+        comment: body.comment ?? worklog.comment,
+      });
+      return toJiraWorklog(getState(), worklog);
+    }),
+    jira('GET', '/issue/([\\w-]+)/transitions', ([, key]) => {
+      const issue = findIssue(key);
+      if (!issue) {
+        return notFound('Issue does not exist');
+      }
+      const transitions = JIRA_STATUSES.filter((status) => status !== issue.status).map((status) => ({
+        id: String(JIRA_STATUSES.indexOf(status) + 11),
+        name: status,
+        to: { name: status },
+      }));
+      return { transitions };
+    }),
+    jira('POST', '/issue/([\\w-]+)/transitions', ([, key], _query, body) => {
+      const issue = findIssue(key);
+      const status = JIRA_STATUSES[Number((body.transition as { id?: string } | undefined)?.id) - 11];
+      if (!issue || !status) {
+        return new FakeResponse(400, { errorMessages: ['Invalid transition'] });
+      }
+      issue.status = status;
+      return new FakeResponse(204);
+    }),
+
+    // Google Calendar
+    google('GET', '/users/me/calendarList', () => ({
+      items: getState().calendars.map(({ id, summary, primary }) => ({ id, summary, primary })),
+    })),
+    google('GET', '/calendars/([^/]+)/events', ([, calendarId], query) => {
+      const calendar = findCalendar(decodeURIComponent(calendarId));
+      if (!calendar) {
+        return notFound('Not Found');
+      }
+      const timeMin = query.get('timeMin');
+      const timeMax = query.get('timeMax');
+      const time = (value?: calendar_v3.Schema$EventDateTime) =>
+        new Date(value?.dateTime ?? value?.date ?? 0).getTime();
+      const items = calendar.events
+        .filter((event) => query.get('showDeleted') === 'true' || event.status !== 'cancelled')
+        .filter((event) => !timeMin || time(event.end) > new Date(timeMin).getTime())
+        .filter((event) => !timeMax || time(event.start) < new Date(timeMax).getTime())
+        .sort((a, b) => time(a.start) - time(b.start));
+      return { items };
+    }),
+    google('GET', '/calendars/([^/]+)/events/([^/]+)', ([, calendarId, eventId]) => {
+      const event = findCalendar(decodeURIComponent(calendarId))?.events.find((e) => e.id === eventId);
+      return event ?? notFound('Not Found');
+    }),
+  ];
+}
+
+function readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+export interface FakeServices {
+  url: string;
+  // The state the services answer from; change it to set up a scenario.
+  state: FakeState;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts the fake services on `port` (0 picks a free one). Besides the service routes,
+ * `GET /_fake/state` shows the state, `PUT /_fake/state` replaces it and
+ * `POST /_fake/reset` goes back to the seed. Every request is logged to stderr unless `quiet`.
+ */
+export function startFakeServices(
+  options: { port?: number; seed?: Partial<FakeState>; quiet?: boolean } = {},
+): Promise<FakeServices> {
+  let state = createFakeState(options.seed);
+  const routes = createRoutes(() => state);
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const send = (response: FakeResponse) => {
+      if (!options.quiet) {
+        console.error(`${req.method} ${url.pathname} ${response.status}`);
+      }
+      if (response.body === undefined) {
+        res.writeHead(response.status).end();
+      } else {
+        res.writeHead(response.status, { 'Content-Type': 'application/json' }).end(JSON.stringify(response.body));
+      }
+    };
+
+    try {
+      const body = await readBody(req);
+      const route = `${req.method} ${url.pathname}`;
+      if (route === 'GET /_fake/state') return send(new FakeResponse(200, state));
+      if (route === 'PUT /_fake/state') {
+        state = createFakeState(body as Partial<FakeState>);
+        return send(new FakeResponse(200, state));
+      }
+      if (route === 'POST /_fake/reset') {
+        state = createFakeState(options.seed);
+        return send(new FakeResponse(200, state));
+      }
+
+      for (const { method, pattern, authHeader, handle } of routes) {
+        const match = req.method === method ? url.pathname.match(pattern) : null;
+        if (!match) continue;
+        if (authHeader && !req.headers[authHeader]) {
+          return send(new FakeResponse(401, { message: 'Missing credentials' }));
+        }
+        const result = handle(match, url.searchParams, body);
+        return send(result instanceof FakeResponse ? result : new FakeResponse(200, result));
+      }
+
+      send(notFound(`No fake for ${route}`));
+    } catch (error) {
+      send(new FakeResponse(400, { message: error instanceof Error ? error.message : String(error) }));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.on('error', reject);
+    server.listen(options.port ?? DEFAULT_PORT, '127.0.0.1', () => {
+      const { port } = server.address() as { port: number };
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        get state() {
+          return state;
+        },
+        set state(newState) {
+          state = newState;
+        },
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * The environment that points `clock` at the fake services and keeps its data in `dataDir`.
+ */
+export function getFakeEnvironment(url: string, dataDir: string): Record<string, string> {
+  return {
+    CLOCKTOPUS_DATA_DIR: dataDir,
+    CLOCKTOPUS_NOTIFIER: 'console',
+    CLOCKIFY_BASE_URL: `${url}/clockify/api/v1`,
+    CLOCKIFY_API_KEY: 'fake-api-key',
+    ATLASSIAN_URL: `${url}/jira/rest/api/3`,
+    ATLASSIAN_EMAIL: 'ada@example.com',
+    ATLASSIAN_API_TOKEN: 'fake-api-token',
+    GOOGLE_CLIENT_ID: 'fake-client-id',
+    GOOGLE_CLIENT_SECRET: 'fake-client-secret',
+    GOOGLE_API_URL: `${url}/`,
+  };
+}
+
+async function main() {
+  const program = new Command()
+    .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_PORT))
+    .option('-s, --seed <file>', 'JSON file with the state to start from, merged over the defaults')
+    .option(
+      '-d, --data-dir <dir>',
+      'Where `clock` keeps its data during the run. Defaults to a new temporary directory.',
+    )
+    .parse(process.argv);
+  const options = program.opts();
+
+  const seed = options.seed ? JSON.parse(fs.readFileSync(options.seed, 'utf8')) : {};
+  const services = await startFakeServices({ port: parseInt(options.port, 10), seed });
+  const dataDir = path.resolve(options.dataDir ?? fs.mkdtempSync(path.join(os.tmpdir(), 'clocktopus-fake-')));
+  const env = getFakeEnvironment(services.url, dataDir);
+
+  // The calendar commands need a Google token; store one the fake accepts in the run's data directory.
+  process.env.CLOCKTOPUS_DATA_DIR = dataDir;
+  const { saveGoogleToken } = await import('../lib/google.js');
+  saveGoogleToken({
+    access_token: 'fake-access-token',
+    refresh_token: 'fake-refresh-token',
+    token_type: 'Bearer',
+    expiry_date: new Date('2100-01-01T00:00:00Z').getTime(),
+  });
+
+  console.log(`Fake Clockify, Jira and Google Calendar listening on ${services.url}.`);
+  console.log('Run `clock` with this environment to use them:\n');
+  for (const [name, value] of Object.entries(env)) {
+    console.log(`export ${name}="${value}"`);
+  }
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,192 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { createTestEnvironment, storeFakeGoogleToken, TestEnvironment } from './helpers.js';
+
+const NOW = '2025-07-21T09:00:00.000Z';
+
+// Within a few seconds of `expected`, since the clock keeps running during a test.
+function assertAbout(actual: string | null | undefined, expected: string) {
+  assert.ok(actual, `expected a time near ${expected}`);
+  assert.ok(
+    Math.abs(new Date(actual).getTime() - new Date(expected).getTime()) < 10_000,
+    `${actual} is not ${expected}`,
+  );
+}
+
+describe('clock start and stop', () => {
+  let environment: TestEnvironment;
+
+  beforeEach(async () => {
+    environment = await createTestEnvironment({ now: NOW });
+    assert.equal((await environment.clock(['template', 'add', 'dev', '-p', 'project-1', '-d', 'Dev work'])).code, 0);
+  });
+
+  afterEach(() => environment.close());
+
+  it('starts a timer from a template and stops it', async () => {
+    const started = await environment.clock(['start', '-T', 'dev']);
+    assert.equal(started.code, 0, started.stderr);
+    assert.match(started.stdout, /Timer started for project: Development/);
+
+    const [entry] = environment.services.state.timeEntries;
+    assert.equal(entry.projectId, 'project-1');
+    assert.equal(entry.description, 'Dev work');
+    assertAbout(entry.timeInterval.start, NOW);
+    assert.equal(entry.timeInterval.end, null);
+
+    const status = await environment.clock(['status']);
+    assert.match(status.stdout, /A timer is currently running/);
+
+    const stopped = await environment.clock(['stop']);
+    assert.equal(stopped.code, 0, stopped.stderr);
+    assertAbout(environment.services.state.timeEntries[0].timeInterval.end, NOW);
+
+    const state = JSON.parse((await environment.clock(['status', '-o', 'json'])).stdout);
+    assert.equal(state.state, 'stopped');
+  });
+
+  it('books the stopped session on its Jira ticket', async () => {
+    assert.equal((await environment.clock(['start', '-T', 'dev', '-j', 'ABC-1'])).code, 0);
+    assert.equal(environment.services.state.timeEntries[0].description, 'ABC-1 Fix the login page');
+
+    const stopped = await environment.clock(['stop'], { CLOCKTOPUS_NOW: '2025-07-21T09:30:00.000Z' });
+    assert.equal(stopped.code, 0, stopped.stderr);
+
+    const [worklog] = environment.services.state.jira.worklogs;
+    assert.equal(worklog.issueKey, 'ABC-1');
+    assert.ok(Math.abs(worklog.timeSpentSeconds - 1800) < 10, `${worklog.timeSpentSeconds}s logged`);
+  });
+
+  it('does not queue a stop when no timer is running', async () => {
+    const stopped = await environment.clock(['stop']);
+    assert.equal(stopped.code, 0, stopped.stderr);
+    assert.deepEqual(environment.services.state.timeEntries, []);
+    assert.doesNotMatch((await environment.clock(['status'])).stdout, /waiting to be synced/);
+  });
+});
+
+describe('clock log', () => {
+  let environment: TestEnvironment;
+
+  beforeEach(async () => {
+    environment = await createTestEnvironment({ now: NOW });
+  });
+
+  afterEach(() => environment.close());
+
+  it('logs a finished entry from a start and a duration', async () => {
+    const logged = await environment.clock([
+      'log',
+      '-p',
+      'project-1',
+      '--from',
+      '08:00',
+      '--duration',
+      '30m',
+      'Planning',
+    ]);
+    assert.equal(logged.code, 0, logged.stderr);
+    assert.deepEqual(environment.services.state.timeEntries[0].timeInterval, {
+      start: '2025-07-21T08:00:00.000Z',
+      end: '2025-07-21T08:30:00.000Z',
+    });
+  });
+
+  it('refuses a start, an end and a duration together', async () => {
+    const logged = await environment.clock([
+      'log',
+      '-p',
+      'project-1',
+      '--from',
+      '08:00',
+      '--to',
+      '09:00',
+      '--duration',
+      '30m',
+    ]);
+    assert.equal(logged.code, 1);
+    assert.match(logged.stdout, /only two of --from, --to and --duration/);
+    assert.deepEqual(environment.services.state.timeEntries, []);
+  });
+});
+
+describe('clock calendar log', () => {
+  let environment: TestEnvironment;
+
+  beforeEach(async () => {
+    environment = await createTestEnvironment({
+      now: '2025-07-21T16:00:00.000Z',
+      seed: {
+        calendars: [
+          {
+            id: 'primary',
+            summary: 'Ada Lovelace',
+            primary: true,
+            events: [
+              {
+                id: 'review',
+                summary: 'Sprint Review',
+                status: 'confirmed',
+                start: { dateTime: '2025-07-21T13:00:00Z' },
+                end: { dateTime: '2025-07-21T14:00:00Z' },
+              },
+              {
+                id: 'lunch',
+                summary: 'Lunch',
+                status: 'confirmed',
+                start: { dateTime: '2025-07-21T12:00:00Z' },
+                end: { dateTime: '2025-07-21T13:00:00Z' },
+              },
+            ],
+          },
+        ],
+      },
+    });
+    await storeFakeGoogleToken(environment);
+  });
+
+  afterEach(() => environment.close());
+
+  it('logs the events a rule maps, once', async () => {
+    for (const rule of [
+      ['--title', '^Sprint Review$', '-p', 'Meetings'],
+      ['--title', '^Lunch$', '--skip'],
+    ]) {
+      const added = await environment.clock(['calendar', 'rules', 'add', ...rule]);
+      assert.equal(added.code, 0, added.stderr);
+    }
+
+    const logged = await environment.clock(['calendar', 'log', '-t']);
+    assert.equal(logged.code, 0, logged.stderr);
+
+    const entries = environment.services.state.timeEntries;
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].description, 'Sprint Review');
+    assert.equal(entries[0].projectId, 'project-2');
+    assert.deepEqual(entries[0].timeInterval, { start: '2025-07-21T13:00:00Z', end: '2025-07-21T14:00:00Z' });
+
+    const again = await environment.clock(['calendar', 'log', '-t']);
+    assert.equal(again.code, 0, again.stderr);
+    assert.match(again.stdout, /Already logged "Sprint Review"/);
+    assert.equal(environment.services.state.timeEntries.length, 1);
+  });
+});
+
+describe('clock config', () => {
+  let environment: TestEnvironment;
+
+  beforeEach(async () => {
+    environment = await createTestEnvironment();
+  });
+
+  afterEach(() => environment.close());
+
+  it('names a damaged credential store and how to replace it', async () => {
+    environment.writeDataFile('credentials.json', { version: 1, protection: 'key-file' });
+
+    const shown = await environment.clock(['config', 'show']);
+    assert.equal(shown.code, 3);
+    assert.match(shown.stdout, /credentials\.json is damaged \(iv: Required; tag: Required; data: Required\)/);
+    assert.match(shown.stdout, /run `clock login` to store your credentials again/);
+  });
+});
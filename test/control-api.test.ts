@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { createTestEnvironment, RunningClock, TestEnvironment } from './helpers.js';
+
+interface Response {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+describe('control API', () => {
+  let environment: TestEnvironment;
+  let monitor: RunningClock;
+  let socketPath: string;
+
+  function request(method: string, route: string, body?: unknown) {
+    return new Promise<Response>((resolve, reject) => {
+      const req = http.request(
+        {
+          socketPath,
+          method,
+          path: route,
+          headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+        },
+        (res) => {
+          let data = '';
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(data) }));
+        },
+      );
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+  }
+
+  /**
+   * Subscribes to `/events` and resolves with the first `count` events.
+   */
+  function collectEvents(count: number) {
+    return new Promise<{ events: Promise<Record<string, unknown>[]> }>((resolve, reject) => {
+      const req = http.get({ socketPath, path: '/events' }, (res) => {
+        assert.equal(res.headers['content-type'], 'text/event-stream');
+        const events = new Promise<Record<string, unknown>[]>((done) => {
+          const received: Record<string, unknown>[] = [];
+          let buffer = '';
+          res.on('data', (chunk) => {
+            buffer += chunk;
+            const messages = buffer.split('\n\n');
+            buffer = messages.pop() ?? '';
+            for (const message of messages) {
+              const data = message.split('\n').find((line) => line.startsWith('data: '));
+              if (data) received.push(JSON.parse(data.slice('data: '.length)));
+            }
+            if (received.length >= count) {
+              req.destroy();
+              done(received.slice(0, count));
+            }
+          });
+        });
+        resolve({ events });
+      });
+      req.on('error', reject);
+    });
+  }
+
+  beforeEach(async () => {
+    environment = await createTestEnvironment({ now: '2025-07-21T09:00:00.000Z' });
+    socketPath = path.join(environment.dataDir, 'control.sock');
+    environment.writeDataFile('monitor.json', { apiSocket: socketPath });
+    assert.equal((await environment.clock(['template', 'add', 'dev', '-p', 'project-1', '-d', 'Dev work'])).code, 0);
+
+    monitor = environment.spawnClock(['monitor']);
+    await monitor.waitForOutput(`Control API listening on ${socketPath}`);
+  });
+
+  afterEach(async () => {
+    await monitor.stop();
+    await environment.close();
+  });
+
+  it('reports the timer and the monitor state on /status', async () => {
+    const { status, body } = await request('GET', '/status');
+    assert.equal(status, 200);
+    assert.deepEqual(body, {
+      running: false,
+      entry: null,
+      session: null,
+      monitor: { locked: false, idle: false },
+      pendingChanges: 0,
+    });
+  });
+
+  it('starts a timer from a template on /start, once', async () => {
+    const started = await request('POST', '/start', { template: 'dev' });
+    assert.equal(started.status, 200);
+    assert.equal(started.body.projectId, 'project-1');
+    assert.equal(started.body.description, 'Dev work');
+
+    const { body } = await request('GET', '/status');
+    assert.equal(body.running, true);
+    assert.equal((body.session as { projectId: string }).projectId, 'project-1');
+
+    const again = await request('POST', '/start', { template: 'dev' });
+    assert.equal(again.status, 409);
+    assert.equal(environment.services.state.timeEntries.length, 1);
+  });
+
+  it('rejects targets it cannot resolve and writes that are not JSON', async () => {
+    assert.equal((await request('POST', '/start', {})).status, 400);
+    assert.equal((await request('POST', '/start', { template: 'nope' })).status, 404);
+    assert.equal((await request('POST', '/start', { projectId: 'Nope' })).status, 404);
+    assert.equal((await request('POST', '/stop')).status, 415);
+    assert.equal((await request('GET', '/nope')).status, 404);
+    assert.deepEqual(environment.services.state.timeEntries, []);
+  });
+
+  it('stops the running timer on /stop', async () => {
+    await request('POST', '/start', { template: 'dev' });
+
+    const stopped = await request('POST', '/stop', {});
+    assert.equal(stopped.status, 200);
+    assert.deepEqual(stopped.body, { stopped: true });
+    assert.ok(environment.services.state.timeEntries[0].timeInterval.end);
+
+    assert.equal((await request('POST', '/stop', {})).status, 409);
+  });
+
+  it('switches to another project without a gap on /switch', async () => {
+    await request('POST', '/start', { template: 'dev' });
+
+    const switched = await request('POST', '/switch', { projectId: 'Meetings', description: 'Standup' });
+    assert.equal(switched.status, 200);
+
+    const [previous, next] = environment.services.state.timeEntries;
+    assert.equal(next.projectId, 'project-2');
+    assert.equal(next.description, 'Standup');
+    assert.equal(next.timeInterval.end, null);
+    assert.equal(previous.timeInterval.end, next.timeInterval.start);
+  });
+
+  it('streams timer changes on /events', async () => {
+    const { events } = await collectEvents(2);
+
+    await request('POST', '/start', { template: 'dev' });
+    await request('POST', '/stop', {});
+
+    const [started, stopped] = await events;
+    assert.equal(started.type, 'timer-started');
+    assert.equal(started.projectId, 'project-1');
+    assert.equal(stopped.type, 'timer-stopped');
+    assert.equal(stopped.auto, false);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  ControlError,
+  ControlHandlers,
+  createControlServer,
+  MonitorEventBus,
+  TimerTarget,
+} from '../lib/control-server.js';
+
+interface Response {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+describe('control server', () => {
+  let server: http.Server;
+  let port: number;
+  let started: TimerTarget[];
+
+  const handlers: ControlHandlers = {
+    status: async () => ({ running: false }),
+    start: async (target) => {
+      if (!target.projectId && !target.template) {
+        throw new ControlError(400, 'Give a projectId or a template.');
+      }
+      started.push(target);
+      return { started: true };
+    },
+    stop: async () => {
+      throw new Error('Clockify is down.');
+    },
+    switch: async (target) => target,
+  };
+
+  function request(method: string, route: string, body?: string, headers: http.OutgoingHttpHeaders = {}) {
+    return new Promise<Response>((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, method, path: route, headers }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  const json = { 'Content-Type': 'application/json' };
+
+  beforeEach(async () => {
+    started = [];
+    server = createControlServer(handlers, new MonitorEventBus());
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('routes requests to their handlers', async () => {
+    assert.deepEqual(await request('GET', '/status'), { status: 200, body: { running: false } });
+    assert.deepEqual(await request('POST', '/start', '{"template":"dev"}', json), {
+      status: 200,
+      body: { started: true },
+    });
+    assert.deepEqual(started, [{ template: 'dev' }]);
+  });
+
+  it('answers with the status of a ControlError and 500 for anything else', async () => {
+    assert.equal((await request('POST', '/start', '{}', json)).status, 400);
+    assert.deepEqual(await request('POST', '/stop', '', json), { status: 500, body: { error: 'Clockify is down.' } });
+    assert.equal((await request('GET', '/nope')).status, 404);
+  });
+
+  it('refuses cross-origin requests and writes that are not JSON', async () => {
+    assert.equal((await request('GET', '/status', undefined, { Origin: 'https://example.com' })).status, 403);
+    assert.equal((await request('POST', '/start', '{"template":"dev"}')).status, 415);
+    assert.equal((await request('POST', '/start', '{', json)).status, 400);
+    assert.deepEqual(started, []);
+  });
+
+  it('rejects bodies that are not a timer target', async () => {
+    for (const body of ['null', '"dev"', '{"template":5}']) {
+      const { status, body: answer } = await request('POST', '/start', body, json);
+      assert.equal(status, 400, body);
+      assert.match(String(answer.error), /^Invalid request body:/);
+    }
+    assert.match(
+      String((await request('POST', '/switch', '{"template":5}', json)).body.error),
+      /template: Expected string/,
+    );
+    assert.deepEqual(started, []);
+  });
+});
@@ -0,0 +1,160 @@
+import { ChildProcess, execFile, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { FakeServices, FakeState, getFakeEnvironment, startFakeServices } from '../scripts/fake-services.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const CLOCK_PATH = path.join(__dirname, '../index.js');
+const GOOGLE_MODULE_PATH = path.join(__dirname, '../lib/google.js');
+
+// Commands that need input get none, so a prompt fails instead of hanging the run.
+const COMMAND_TIMEOUT_MS = 30_000;
+
+export interface ClockResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * A `clock` set up against its own fake services and data directory, as if it were
+ * `now`. The clock keeps running from there.
+ */
+export interface TestEnvironment {
+  services: FakeServices;
+  dataDir: string;
+  // Read by the `file` presence source: `locked`, or the idle time in seconds.
+  presenceFile: string;
+  env: NodeJS.ProcessEnv;
+  clock(args: string[], env?: NodeJS.ProcessEnv): Promise<ClockResult>;
+  // Starts a long-running command such as `monitor`.
+  spawnClock(args: string[], env?: NodeJS.ProcessEnv): RunningClock;
+  writeDataFile(name: string, contents: unknown): void;
+  close(): Promise<void>;
+}
+
+export async function createTestEnvironment(
+  options: { now?: string; seed?: Partial<FakeState> } = {},
+): Promise<TestEnvironment> {
+  const services = await startFakeServices({ port: 0, seed: options.seed, quiet: true });
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clocktopus-test-'));
+  const presenceFile = path.join(dataDir, 'presence');
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    ...getFakeEnvironment(services.url, dataDir),
+    TZ: 'UTC',
+    PRESENCE_SOURCES: 'file',
+    CLOCKTOPUS_PRESENCE_FILE: presenceFile,
+    ...(options.now ? { CLOCKTOPUS_NOW: options.now } : {}),
+  };
+
+  return {
+    services,
+    dataDir,
+    presenceFile,
+    env,
+    clock: (args, extraEnv = {}) =>
+      new Promise((resolve) => {
+        execFile(
+          process.execPath,
+          [CLOCK_PATH, ...args],
+          { env: { ...env, ...extraEnv }, timeout: COMMAND_TIMEOUT_MS },
+          (error, stdout, stderr) => {
+            resolve({ code: error ? (typeof error.code === 'number' ? error.code : null) : 0, stdout, stderr });
+          },
+        ).stdin?.end();
+      }),
+    spawnClock: (args, extraEnv = {}) =>
+      new RunningClock(
+        spawn(process.execPath, [CLOCK_PATH, ...args], {
+          env: { ...env, ...extraEnv },
+          stdio: ['ignore', 'pipe', 'pipe'],
+        }),
+      ),
+    writeDataFile: (name, contents) => fs.writeFileSync(path.join(dataDir, name), JSON.stringify(contents)),
+    close: async () => {
+      await services.close();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Stores a Google token the fake calendar accepts, as `yarn fake-services` does. The
+ * credential store belongs to the data directory, so this runs in a process started with it.
+ */
+export function storeFakeGoogleToken(environment: TestEnvironment): Promise<void> {
+  const token = {
+    access_token: 'fake-access-token',
+    refresh_token: 'fake-refresh-token',
+    token_type: 'Bearer',
+    expiry_date: new Date('2100-01-01T00:00:00Z').getTime(),
+  };
+  const script = `const { saveGoogleToken } = await import(${JSON.stringify(pathToFileURL(GOOGLE_MODULE_PATH).href)});
+saveGoogleToken(${JSON.stringify(token)});`;
+
+  return new Promise((resolve, reject) => {
+    execFile(
+      process.execPath,
+      ['--input-type=module', '-e', script],
+      { env: environment.env, timeout: COMMAND_TIMEOUT_MS },
+      (error, stdout, stderr) => (error ? reject(new Error(stderr || error.message)) : resolve()),
+    );
+  });
+}
+
+/**
+ * A `clock` process that keeps everything it prints, so tests can wait for a line
+ * whenever it was printed.
+ */
+export class RunningClock {
+  private output = '';
+  private readonly waiters = new Set<() => void>();
+
+  constructor(readonly child: ChildProcess) {
+    const onData = (chunk: Buffer) => {
+      this.output += chunk.toString();
+      for (const waiter of this.waiters) waiter();
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+  }
+
+  /**
+   * Resolves once the process has printed `text` `count` times in all.
+   */
+  waitForOutput(text: string, count = 1, timeoutMs = 10_000): Promise<void> {
+    const isPrinted = () => this.output.split(text).length > count;
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        if (isPrinted()) {
+          cleanUp();
+          resolve();
+        }
+      };
+      const timeout = setTimeout(() => {
+        cleanUp();
+        reject(new Error(`Timed out waiting for "${text}". Output so far:\n${this.output}`));
+      }, timeoutMs);
+      const cleanUp = () => {
+        clearTimeout(timeout);
+        this.waiters.delete(waiter);
+      };
+      this.waiters.add(waiter);
+      waiter();
+    });
+  }
+
+  stop(): Promise<void> {
+    if (this.child.exitCode !== null || this.child.signalCode !== null) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.child.once('exit', () => resolve());
+      this.child.kill('SIGTERM');
+    });
+  }
+}
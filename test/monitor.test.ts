@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { createPresenceHandler } from '../lib/monitor.js';
+import { DEFAULT_MONITOR_CONFIG, MonitorPolicy, resolvePolicy } from '../lib/monitor-config.js';
+import { FakePresenceSource, PresenceEvent } from '../lib/presence/index.js';
+import { createTestEnvironment, RunningClock, TestEnvironment } from './helpers.js';
+
+const NOW = '2025-07-21T09:00:00.000Z';
+
+describe('presence handler', () => {
+  let source: FakePresenceSource;
+  let policy: MonitorPolicy;
+  let calls: string[];
+  let handled: Promise<void>;
+
+  beforeEach(async () => {
+    source = new FakePresenceSource();
+    policy = resolvePolicy(DEFAULT_MONITOR_CONFIG);
+    calls = [];
+    const handle = createPresenceHandler(
+      {
+        stop: async (reason, idleSeconds = 0) => {
+          calls.push(`stop ${idleSeconds}`);
+          return true;
+        },
+        resume: async () => {
+          calls.push('resume');
+        },
+      },
+      () => policy,
+    );
+    await source.start((event) => {
+      handled = handle(event);
+    });
+  });
+
+  async function emit(...events: PresenceEvent[]) {
+    for (const event of events) {
+      source.emit(event);
+      await handled;
+    }
+  }
+
+  it('stops on lock and resumes on unlock', async () => {
+    await emit({ type: 'locked' }, { type: 'locked' }, { type: 'unlocked' });
+    assert.deepEqual(calls, ['stop 0', 'resume']);
+  });
+
+  it('stops once the idle threshold is reached and resumes when the user is back', async () => {
+    await emit({ type: 'idle', idleSeconds: 10 }, { type: 'idle', idleSeconds: 300 }, { type: 'idle', idleSeconds: 0 });
+    assert.deepEqual(calls, ['stop 300', 'resume']);
+  });
+
+  it('leaves the timer alone when the policy disables auto-stop', async () => {
+    policy = { ...policy, autoStop: false };
+    await emit({ type: 'locked' }, { type: 'idle', idleSeconds: 600 });
+    assert.deepEqual(calls, []);
+  });
+});
+
+describe('clock monitor', () => {
+  let environment: TestEnvironment;
+  let monitor: RunningClock | undefined;
+
+  beforeEach(async () => {
+    environment = await createTestEnvironment({ now: NOW });
+    environment.writeDataFile('monitor.json', {
+      lockPollIntervalMs: 500,
+      idlePollIntervalMs: 500,
+      resumeCooldownSeconds: 0,
+      apiEnabled: false,
+    });
+    assert.equal((await environment.clock(['template', 'add', 'dev', '-p', 'project-1', '-d', 'Dev work'])).code, 0);
+    assert.equal((await environment.clock(['start', '-T', 'dev'])).code, 0);
+  });
+
+  afterEach(async () => {
+    await monitor?.stop();
+    monitor = undefined;
+    await environment.close();
+  });
+
+  it('stops the timer when the screen locks and resumes it on unlock', async () => {
+    monitor = environment.spawnClock(['monitor']);
+    await monitor.waitForOutput('Monitoring lock state and idle time (file)');
+
+    fs.writeFileSync(environment.presenceFile, 'locked');
+    await monitor.waitForOutput('Timer stopped.');
+    assert.ok(environment.services.state.timeEntries[0].timeInterval.end);
+
+    fs.writeFileSync(environment.presenceFile, '0');
+    await monitor.waitForOutput('Timer restarted for the last used project.');
+
+    const entries = environment.services.state.timeEntries;
+    assert.equal(entries.length, 2);
+    assert.equal(entries[1].projectId, 'project-1');
+    assert.equal(entries[1].description, 'Dev work');
+    assert.equal(entries[1].timeInterval.end, null);
+  });
+
+  // The macOS lock source can't load its addon anywhere else.
+  it('exits when no presence source can be started', { skip: process.platform === 'darwin' }, async () => {
+    const result = await environment.clock(['monitor'], { PRESENCE_SOURCES: 'macos-lock' });
+    assert.equal(result.code, 1);
+    assert.match(result.stderr, /None of the presence sources could be started/);
+  });
+
+  it('ends the entry when the user went idle', async () => {
+    // An hour after the timer started, the user has been idle for the last ten minutes.
+    monitor = environment.spawnClock(['monitor'], { CLOCKTOPUS_NOW: '2025-07-21T10:00:00.000Z' });
+    await monitor.waitForOutput('Monitoring lock state and idle time (file)');
+
+    fs.writeFileSync(environment.presenceFile, '600');
+    await monitor.waitForOutput('Trimmed 0h 10m of idle time from the entry.');
+
+    const { end } = environment.services.state.timeEntries[0].timeInterval;
+    const expected = new Date('2025-07-21T09:50:00.000Z').getTime();
+    assert.ok(end && Math.abs(new Date(end).getTime() - expected) < 10_000, `ended at ${end}`);
+  });
+});
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { AxiosInstance, AxiosRequestConfig } from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { enqueueOutboxOperation, getOutboxOperation, rescheduleOutboxOperation, setDbPath } from '../lib/db.js';
+import { HttpError, NotFoundError, OfflineError } from '../lib/http-errors.js';
+import { replayOutbox } from '../lib/outbox.js';
+
+const START_URL = '/workspaces/workspace-1/time-entries';
+const STOP_URL = '/workspaces/workspace-1/user/user-1/time-entries';
+
+describe('replayOutbox', () => {
+  let dataDir: string;
+  let databases = 0;
+  let sent: string[];
+  // Answers a request, or throws to fail it.
+  let answer: (request: AxiosRequestConfig) => unknown;
+  let lookupError: HttpError | null;
+
+  const httpClient = {
+    request: async (request: AxiosRequestConfig) => {
+      sent.push(`${request.method} ${request.url} ${JSON.stringify(request.data)}`);
+      return { data: answer(request) };
+    },
+    get: async (url: string) => {
+      if (lookupError) {
+        throw lookupError;
+      }
+      return { data: url === '/user' ? { id: 'user-1', email: 'ada@example.com', name: 'Ada Lovelace' } : [] };
+    },
+  } as unknown as AxiosInstance;
+
+  before(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clocktopus-test-'));
+  });
+
+  after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+  beforeEach(() => {
+    setDbPath(path.join(dataDir, `sessions-${++databases}.db`));
+    sent = [];
+    answer = () => ({});
+    lookupError = null;
+  });
+
+  it('fails the stop queued after a start Clockify rejects, but not the next start and stop', async () => {
+    const rejectedStart = enqueueOutboxOperation('start', 'POST', START_URL, { projectId: 'gone', start: 'a' });
+    const stopOfRejected = enqueueOutboxOperation('stop', 'PATCH', STOP_URL, { end: 'b' });
+    const start = enqueueOutboxOperation('start', 'POST', START_URL, { projectId: 'project-1', start: 'c' });
+    const stop = enqueueOutboxOperation('stop', 'PATCH', STOP_URL, { end: 'd' });
+    answer = (request) => {
+      if (request.data.projectId === 'gone') {
+        throw new NotFoundError('Clockify', 'Project not found', 404);
+      }
+      return {};
+    };
+
+    assert.deepEqual(await replayOutbox(httpClient), { synced: 2, failed: 2, blocked: false });
+
+    assert.equal(getOutboxOperation(rejectedStart)?.status, 'failed');
+    assert.equal(getOutboxOperation(stopOfRejected)?.status, 'failed');
+    assert.match(getOutboxOperation(stopOfRejected)?.lastError ?? '', /start it belongs to failed/);
+    assert.equal(getOutboxOperation(start)?.status, 'done');
+    assert.equal(getOutboxOperation(stop)?.status, 'done');
+    assert.deepEqual(sent, [
+      `POST ${START_URL} {"projectId":"gone","start":"a"}`,
+      `POST ${START_URL} {"projectId":"project-1","start":"c"}`,
+      `PATCH ${STOP_URL} {"end":"d"}`,
+    ]);
+  });
+
+  it('still sends a create when checking for an earlier delivery fails', async () => {
+    const id = enqueueOutboxOperation('start', 'POST', START_URL, { start: '2025-07-21T09:00:00.000Z' });
+    rescheduleOutboxOperation(id, new Date(0).toISOString(), 'Request timed out');
+    lookupError = new NotFoundError('Clockify', 'Not found', 404);
+
+    assert.deepEqual(await replayOutbox(httpClient), { synced: 1, failed: 0, blocked: false });
+    assert.equal(getOutboxOperation(id)?.status, 'done');
+    assert.equal(sent.length, 1);
+  });
+
+  it('waits to send a create while it cannot check for an earlier delivery', async () => {
+    const id = enqueueOutboxOperation('start', 'POST', START_URL, { start: '2025-07-21T09:00:00.000Z' });
+    rescheduleOutboxOperation(id, new Date(0).toISOString(), 'Request timed out');
+    lookupError = new OfflineError('Clockify', 'Network error');
+
+    assert.deepEqual(await replayOutbox(httpClient), { synced: 0, failed: 0, blocked: true });
+    assert.equal(getOutboxOperation(id)?.status, 'pending');
+    assert.deepEqual(sent, []);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { createFakeState } from '../scripts/fake-services.js';
+import { createTestEnvironment, TestEnvironment } from './helpers.js';
+
+describe('stopAndRecord', () => {
+  let environment: TestEnvironment;
+  let now: Date;
+  let databases = 0;
+  // Loaded once the environment is set, since the data directory is read on import.
+  let timer: typeof import('../lib/timer.js');
+  let db: typeof import('../lib/db.js');
+  let context: import('../lib/timer.js').TimerContext;
+
+  before(async () => {
+    environment = await createTestEnvironment();
+    Object.assign(process.env, environment.env);
+
+    const { Clockify } = await import('../clockify.js');
+    const { ConsoleNotifier } = await import('../lib/notifier.js');
+    const { setClock } = await import('../lib/time.js');
+    timer = await import('../lib/timer.js');
+    db = await import('../lib/db.js');
+
+    setClock(() => now);
+    context = {
+      clockify: new Clockify({ notifier: new ConsoleNotifier() }),
+      workspaceId: 'workspace-1',
+      userId: 'user-1',
+    };
+  });
+
+  after(() => environment.close());
+
+  beforeEach(() => {
+    now = new Date('2025-07-21T09:00:00.000Z');
+    environment.services.state = createFakeState();
+    db.setDbPath(path.join(environment.dataDir, `sessions-${++databases}.db`));
+  });
+
+  function advance(minutes: number) {
+    now = new Date(now.getTime() + minutes * 60_000);
+  }
+
+  it('stops the timer, completes the session and books it on its Jira ticket', async () => {
+    await context.clockify.startTimer('workspace-1', 'project-1', 'Fixing it', 'ABC-1');
+    advance(30);
+
+    assert.equal(await timer.stopAndRecord(context), true);
+
+    assert.equal(environment.services.state.timeEntries[0].timeInterval.end, '2025-07-21T09:30:00.000Z');
+    const session = db.getLatestSession('workspace-1');
+    assert.equal(session?.completedAt, '2025-07-21T09:30:00.000Z');
+
+    const [worklog] = environment.services.state.jira.worklogs;
+    assert.equal(worklog.timeSpentSeconds, 1800);
+    assert.equal(session?.jiraWorklogId, worklog.id);
+  });
+
+  it('extends the worklog when the same ticket is resumed within the auto-resume window', async () => {
+    await context.clockify.startTimer('workspace-1', 'project-1', 'Fixing it', 'ABC-1');
+    advance(30);
+    await timer.stopAndRecord(context, { isAutoCompleted: true });
+    advance(10);
+    await context.clockify.startTimer('workspace-1', 'project-1', 'Fixing it', 'ABC-1');
+    advance(30);
+
+    await timer.stopAndRecord(context);
+
+    const worklogs = environment.services.state.jira.worklogs;
+    assert.equal(worklogs.length, 1);
+    assert.equal(worklogs[0].timeSpentSeconds, 3600);
+    assert.equal(timer.getWorklogTotals(worklogs[0].id).timeSpentSeconds, 3600);
+  });
+
+  it('does nothing when no timer is running', async () => {
+    assert.equal(await timer.stopAndRecord(context), false);
+    assert.equal(db.countPendingOutboxOperations(), 0);
+  });
+});